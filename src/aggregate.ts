@@ -0,0 +1,143 @@
+import { ContributorCost, costHours, RateCard, roundCents } from './rates';
+import { Contributor } from './types';
+
+// A person's hours on one activity, with their cost when a rate card is given
+export type ContributorSummary = {
+    project: string;
+    who: string;
+    role: string;
+    activityType: string;
+    totalHours: number;
+    // Hours that could be costed from the rate card
+    costedHours: number;
+    labourCost: number;
+    onCost: number;
+    phase: string;
+    workItems: Set<string>;
+};
+
+// Cost totals for one activity
+export type ActivityTotals = {
+    activityType: string;
+    hours: number;
+    costedHours: number;
+    labourCost: number;
+    onCost: number;
+};
+
+// Hours a person has with no rate card entry to cost them, and the work items they're on
+export type UncostedHours = {
+    hours: number;
+    workItems: Set<string>;
+};
+
+// Hours per Project + Who under each period label, e.g. each month
+export type HoursBreakdown = {
+    // Sorted, with 'Undated' after the period labels
+    labels: string[];
+    hours: Map<string, Map<string, number>>;
+};
+
+// Aggregate the attributed contributors by Project + Who, sorted by project and then
+// by person
+export function aggregateContributors(attributed: Contributor[], rateCard?: RateCard): ContributorSummary[] {
+    const aggregatedData = new Map<string, ContributorSummary>();
+
+    for (const contributor of attributed) {
+        const hours = contributor.hoursCost;
+        if (hours > 0) {
+            const key = summaryKey(contributor.project, contributor.who);
+            const cost = rateCard ? costHours(rateCard, contributor.who, hours, contributor.date) : undefined;
+
+            if (aggregatedData.has(key)) {
+                const existing = aggregatedData.get(key)!;
+                existing.totalHours += hours;
+                existing.costedHours += cost ? hours : 0;
+                existing.labourCost += cost?.labourCost ?? 0;
+                existing.onCost += cost?.onCost ?? 0;
+                existing.workItems.add(contributor.workItem);
+            } else {
+                aggregatedData.set(key, {
+                    project: contributor.project,
+                    who: contributor.who,
+                    role: contributor.role,
+                    activityType: contributor.activityType,
+                    totalHours: hours,
+                    costedHours: cost ? hours : 0,
+                    labourCost: cost?.labourCost ?? 0,
+                    onCost: cost?.onCost ?? 0,
+                    phase: contributor.phase,
+                    workItems: new Set([contributor.workItem])
+                });
+            }
+        }
+    }
+
+    return Array.from(aggregatedData.values()).sort((a, b) => {
+        // First sort by project
+        if (a.project !== b.project) {
+            return a.project.localeCompare(b.project);
+        }
+        // Then sort by person name within the same project
+        return a.who.localeCompare(b.who);
+    });
+}
+
+// The summary's cost at the blended rate over the hours that could be costed
+export function summaryCost(summary: ContributorSummary): ContributorCost | undefined {
+    return summary.costedHours > 0 ? {
+        hourlyRate: roundCents(summary.labourCost / summary.costedHours),
+        labourCost: roundCents(summary.labourCost),
+        onCost: roundCents(summary.onCost),
+    } : undefined;
+}
+
+// Per-activity cost totals, in the order of the summaries
+export function totalByActivity(summaries: ContributorSummary[]): Map<string, ActivityTotals> {
+    const activityTotals = new Map<string, ActivityTotals>();
+    for (const data of summaries) {
+        const totals = activityTotals.get(data.project) ?? { activityType: data.activityType, hours: 0, costedHours: 0, labourCost: 0, onCost: 0 };
+        totals.hours += data.totalHours;
+        totals.costedHours += data.costedHours;
+        totals.labourCost += data.labourCost;
+        totals.onCost += data.onCost;
+        activityTotals.set(data.project, totals);
+    }
+    return activityTotals;
+}
+
+// People with hours but no rate card entry, sorted by name
+export function findUncosted(attributed: Contributor[], rateCard: RateCard): Map<string, UncostedHours> {
+    const uncosted = new Map<string, UncostedHours>();
+    for (const contributor of attributed) {
+        if (costHours(rateCard, contributor.who, contributor.hoursCost, contributor.date)) continue;
+        const missing = uncosted.get(contributor.who) ?? { hours: 0, workItems: new Set<string>() };
+        missing.hours += contributor.hoursCost;
+        missing.workItems.add(contributor.workItem);
+        uncosted.set(contributor.who, missing);
+    }
+    return new Map(Array.from(uncosted).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Hours per Project + Who under the label `labelFor` gives each contribution's date
+export function breakdownHours(attributed: Contributor[], labelFor: (date: Date) => string): HoursBreakdown {
+    const hours = new Map<string, Map<string, number>>();
+    const labels = new Set<string>();
+
+    for (const contributor of attributed) {
+        const label = contributor.date ? labelFor(contributor.date) : 'Undated';
+        labels.add(label);
+        const key = summaryKey(contributor.project, contributor.who);
+        const byLabel = hours.get(key) ?? new Map<string, number>();
+        byLabel.set(label, (byLabel.get(label) ?? 0) + contributor.hoursCost);
+        hours.set(key, byLabel);
+    }
+
+    // 'Undated' sorts after the period labels
+    return { labels: Array.from(labels).sort(), hours };
+}
+
+// Key of a Project + Who row in the summary and breakdowns
+export function summaryKey(project: string, who: string): string {
+    return `${project}|${who}`;
+}
@@ -0,0 +1,87 @@
+import { ticketField } from './columns';
+import { Config } from './config';
+import { Ticket } from './types';
+
+// A rule declaring which tickets are activity anchors (e.g. Jira Product Discovery
+// ideas carrying the R&DTI Activity). Every condition given in a rule must match;
+// a ticket is an anchor when any rule matches. Each condition accepts one value or
+// a list of alternatives, compared case-insensitively.
+export type AnchorRule = {
+    // Project key, i.e. the part of 'Work item key' before the dash
+    projectKey?: string | string[];
+    workType?: string | string[];
+    status?: string | string[];
+    resolution?: string | string[];
+    label?: string | string[];
+    // Matches when any of the ticket's components does
+    component?: string | string[];
+    assignee?: string | string[];
+    // Header of a (custom) field in the export, matched against `value`
+    field?: string;
+    value?: string | string[];
+};
+
+export const ANCHOR_RULE_KEYS: (keyof AnchorRule)[] = [
+    'projectKey', 'workType', 'status', 'resolution', 'label', 'component', 'assignee', 'field', 'value',
+];
+
+// MAP tickets are "Idea" type tickets with work item keys starting with "MAP-"
+export const DEFAULT_ANCHOR_RULES: AnchorRule[] = [{ projectKey: 'MAP', workType: 'Idea' }];
+
+export function isActivityAnchor(ticket: Ticket, config: Config): boolean {
+    return config.anchors.some(rule => matchesAnchorRule(ticket, rule, config));
+}
+
+// `config` maps a rule's field to where the export's value is stored on the ticket
+export function matchesAnchorRule(ticket: Ticket, rule: AnchorRule, config: Config): boolean {
+    if (rule.projectKey !== undefined && !matchesAny(getProjectKey(ticket['Work item key']), rule.projectKey)) {
+        return false;
+    }
+    if (rule.workType !== undefined && !matchesAny(ticket['Work type'] || '', rule.workType)) {
+        return false;
+    }
+    if (rule.status !== undefined && !matchesAny(ticket['Status'] || '', rule.status)) {
+        return false;
+    }
+    if (rule.resolution !== undefined && !matchesAny(ticket['Resolution'] || '', rule.resolution)) {
+        return false;
+    }
+    if (rule.label !== undefined) {
+        const labels = parseLabels(ticket['Labels'] || '');
+        if (!labels.some(label => matchesAny(label, rule.label!))) return false;
+    }
+    if (rule.component !== undefined) {
+        const components = parseComponents(ticket['Components'] || '');
+        if (!components.some(component => matchesAny(component, rule.component!))) return false;
+    }
+    if (rule.assignee !== undefined && !matchesAny(ticket['Assignee'] || '', rule.assignee)) {
+        return false;
+    }
+    if (rule.field !== undefined) {
+        const value = String(ticket[ticketField(rule.field, config)] ?? '').trim();
+        // Without a value the rule only asks for the field to be filled in
+        if (rule.value === undefined ? value === '' : !matchesAny(value, rule.value)) return false;
+    }
+    return true;
+}
+
+export function getProjectKey(workItemKey: string): string {
+    const dash = workItemKey.lastIndexOf('-');
+    return dash > 0 ? workItemKey.slice(0, dash) : '';
+}
+
+// Jira exports labels space- or comma-separated; labels themselves can't contain spaces
+export function parseLabels(labels: string): string[] {
+    return labels.split(/[\s,]+/).filter(Boolean);
+}
+
+// Component names can contain spaces, so exports separate them with commas
+export function parseComponents(components: string): string[] {
+    return components.split(',').map(component => component.trim()).filter(Boolean);
+}
+
+function matchesAny(actual: string, expected: string | string[]): boolean {
+    const candidates = Array.isArray(expected) ? expected : [expected];
+    const normalized = actual.trim().toLowerCase();
+    return candidates.some(candidate => candidate.trim().toLowerCase() === normalized);
+}
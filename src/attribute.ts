@@ -0,0 +1,483 @@
+import { classifyActivityType, classifyPhase, classifyRole } from './classify';
+import { LinkedItemDecision } from './explain';
+import { getChildren, getDescendantKeys } from './graph';
+import { allocateHours, formatDate, getTicketDates, isInPeriod, Period, spansBoundary, TicketDates } from './periods';
+import { findRate, RateCard, roundCents } from './rates';
+import { getShareOfHours, isExcluded, isMapTicket, TicketModel } from './resolve';
+import { Contributor, Ticket } from './types';
+import { sumWorklogHours } from './worklogs';
+
+// A ticket open across a quarter or claim period boundary, for the boundary report
+export type BoundaryTicket = {
+    dates: TicketDates;
+    hours: number;
+    claimedHours: number;
+};
+
+export type Attribution = {
+    // Contributions claimed in the period, dated
+    attributed: Contributor[];
+    // Tickets open across a quarter or claim period boundary, by key
+    boundaryTickets: Map<string, BoundaryTicket>;
+    // Hours left out for being dated outside the period, or undated when there is one
+    outsidePeriodHours: number;
+    // Hours attributed to each work item across all activities, before the period filter
+    attributedByTicket: Map<string, number>;
+};
+
+// Trace the hours of every MAP ticket with an R&DTI Activity to the people who worked
+// on them, and date each contribution by the ticket or worklog it came from. With a
+// period, only the hours dated in it are kept.
+export function attributeContributors(model: TicketModel, period?: Period, rateCard?: RateCard): Attribution {
+    const { config, rows, graph, roster } = model;
+    const attributed: Contributor[] = [];
+    const boundaryTickets = new Map<string, BoundaryTicket>();
+    let outsidePeriodHours = 0;
+    const attributedByTicket = new Map<string, number>();
+
+    for (const ticket of rows) {
+        if (isMapTicket(model, ticket) && ticket['R&DTI Activity'] && !isExcluded(model, ticket)) {
+            const contributors = getClaimedContributors(model, ticket);
+
+            contributors.forEach(contributor => {
+                // Only add if the contributor actually has hours
+                if (contributor.hoursCost <= 0) return;
+
+                model.derivation.traced.push(contributor);
+                attributedByTicket.set(contributor.workItem, (attributedByTicket.get(contributor.workItem) ?? 0) + contributor.hoursCost);
+
+                // Worklog hours are dated by the worklog; the rest by the ticket's dates
+                const dates: TicketDates = contributor.date
+                    ? { attributionDate: contributor.date }
+                    : getTicketDates(graph.tickets.get(contributor.workItem)!, config.periods);
+                let claimedHours = 0;
+                for (const allocation of allocateHours(contributor.hoursCost, dates, config.periods.boundaryRule)) {
+                    if (period && (!allocation.date || !isInPeriod(allocation.date, period))) {
+                        outsidePeriodHours += allocation.hours;
+                        continue;
+                    }
+                    claimedHours += allocation.hours;
+                    // Without a roster, the role can come from the rate card entry for the date
+                    const role = roster || !rateCard ? contributor.role : classifyRole(contributor.who, roster, findRate(rateCard, contributor.who, allocation.date)?.role);
+                    attributed.push({ ...contributor, role, hoursCost: allocation.hours, date: allocation.date });
+                }
+
+                if (spansBoundary(dates, period)) {
+                    const boundary = boundaryTickets.get(contributor.workItem) ?? { dates, hours: 0, claimedHours: 0 };
+                    boundary.hours += contributor.hoursCost;
+                    boundary.claimedHours += claimedHours;
+                    boundaryTickets.set(contributor.workItem, boundary);
+                }
+            });
+        }
+    }
+
+    return { attributed, boundaryTickets, outsidePeriodHours, attributedByTicket };
+}
+
+// Set 'Sum of WIP hours' on every row: the hours each MAP ticket with an R&DTI
+// Activity claims from its linked items, and 0 on every other ticket. Returns the
+// number of MAP tickets given a sum.
+export function sumWIPHours(model: TicketModel): number {
+    let mapTicketsProcessed = 0;
+
+    for (const ticket of model.rows) {
+        // Initialize Sum of WIP hours column
+        ticket['Sum of WIP hours'] = 0;
+
+        // Only process MAP tickets with R&DTI Activities
+        if (isMapTicket(model, ticket) && ticket['R&DTI Activity'] && !isExcluded(model, ticket)) {
+            // The same hours as are attributed, so the two always agree
+            ticket['Sum of WIP hours'] = getClaimedContributors(model, ticket)
+                .reduce((total, contributor) => total + contributor.hoursCost, 0);
+            mapTicketsProcessed++;
+        }
+    }
+
+    return mapTicketsProcessed;
+}
+
+// The contributions a MAP ticket claims, traced once and shared by sumWIPHours and
+// attributeContributors
+function getClaimedContributors(model: TicketModel, mapTicket: Ticket): Contributor[] {
+    let claimed = model.claimed.get(mapTicket);
+    if (!claimed) {
+        claimed = traceContributorsFromLinkedItems(model, mapTicket);
+        model.claimed.set(mapTicket, claimed);
+    }
+    return claimed;
+}
+
+// WIP hours for a ticket and its children: the larger of its own hours for everyone on
+// it and its children's WIP hours, or its own hours for everyone on its children when
+// only it has hours. Each subtree's hours are worked out once.
+export function getWIPHours(model: TicketModel, ticket: Ticket): number {
+    let wipHours = model.wipHours.get(ticket);
+    if (wipHours === undefined) {
+        wipHours = rollUpWIPHours(model, ticket);
+        model.wipHours.set(ticket, wipHours);
+    }
+    return wipHours;
+}
+
+function rollUpWIPHours(model: TicketModel, ticket: Ticket): number {
+    const baseHours = getBaseHours(model, ticket);
+    const peopleCount = getPeopleCount(ticket);
+    // Worklogs already hold every person's hours
+    const worklogHours = getClaimableWorklogHours(model, ticket);
+    const ticketHours = worklogHours ?? baseHours * peopleCount;
+
+    const children = getChildren(model.graph, ticket);
+
+    // Note how the hours were rolled up, for explain
+    const rollup = (hours: number, note: string) => {
+        model.derivation.wipRollups.set(ticket['Work item key'], note);
+        return hours;
+    };
+    const ownHours = isExcluded(model, ticket) ? 'own hours excluded'
+        : worklogHours !== undefined ? `worklogs ${roundCents(worklogHours)}h` : `own ${roundCents(baseHours)}h × ${countPeople(peopleCount)}`;
+
+    if (children.length === 0) {
+        return rollup(ticketHours, ownHours);
+    }
+
+    // Parent has hours but children don't - use parent hours for everyone on the children
+    const childrenPeople = getChildrenPeople(model, ticket);
+    if (childrenPeople) {
+        return rollup(baseHours * childrenPeople.length, `parent ${roundCents(baseHours)}h × ${countPeople(childrenPeople.length)} on children`);
+    }
+
+    // Calculate sum of children's WIP hours (recursive)
+    const childrenSum = children.reduce((sum, child) => sum + getWIPHours(model, child), 0);
+
+    // Return the larger of ticket's own hours or sum of children's hours
+    return ticketHours >= childrenSum
+        ? rollup(ticketHours, `${ownHours} ≥ children ${roundCents(childrenSum)}h`)
+        : rollup(childrenSum, `children ${roundCents(childrenSum)}h > ${ownHours}`);
+}
+
+// The contributions a MAP ticket claims from its linked items and their descendants,
+// each ticket's hours scaled by the MAP ticket's share of them. Items that are
+// descendants of other linked items, MAP tickets with their own activity, and items
+// claimed by other MAP tickets are skipped, so no hours are counted twice.
+export function traceContributorsFromLinkedItems(model: TicketModel, mapTicket: Ticket): Contributor[] {
+    const { config, graph, derivation } = model;
+    const contributors: Contributor[] = [];
+    const rdtiActivity = mapTicket['R&DTI Activity'];
+
+    if (!rdtiActivity) return contributors;
+
+    const linkedItems = graph.links.get(mapTicket['Work item key']) ?? [];
+
+    // Collect all descendants of linked items for double counting prevention
+    const allDescendants = new Set();
+    for (const linkedId of linkedItems) {
+        const linkedTicket = graph.tickets.get(linkedId);
+        if (linkedTicket && !isMapTicket(model, linkedTicket)) {
+            const descendants = getDescendantKeys(graph, linkedTicket);
+            descendants.forEach(desc => allDescendants.add(desc));
+        }
+    }
+
+    // Process each linked item, noting why any are skipped
+    const decisions: LinkedItemDecision[] = [];
+    derivation.linkedItems.set(mapTicket['Work item key'], decisions);
+    const skip = (item: string, reason: string) => decisions.push({ item, counted: false, share: 0, reason });
+
+    for (const linkedId of linkedItems) {
+        const linkedTicket = graph.tickets.get(linkedId);
+        if (!linkedTicket) {
+            skip(linkedId, 'not in the export');
+            continue;
+        }
+
+        // Skip if this ticket is a descendant of another linked item
+        if (allDescendants.has(linkedId)) {
+            skip(linkedId, 'a descendant of another linked item, so its hours are counted through that item');
+            continue;
+        }
+
+        // Skip MAP tickets that have R&DTI Activity (to avoid double counting between MAP tickets)
+        if (isMapTicket(model, linkedTicket) && linkedTicket['R&DTI Activity']) {
+            skip(linkedId, 'a MAP ticket with its own R&DTI activity');
+            continue;
+        }
+
+        // Collect contributors from this linked item (including non-MAP tickets with R&DTI Activity)
+        const ticketContributors = collectContributors(model, linkedTicket, rdtiActivity, mapTicket)
+            .filter(contributor => contributor.hoursCost > 0);
+        const share = getShareOfHours(model, linkedTicket, mapTicket);
+
+        // Skip tickets whose hours this MAP ticket doesn't claim under the multi-MAP policy
+        if (share === 0 && ticketContributors.length === 0) {
+            skip(linkedId, `claimed by another MAP ticket under the '${config.multiAnchorPolicy}' policy`);
+            continue;
+        }
+
+        // Roll up the item's WIP hours too, so explain can show how they add up
+        getWIPHours(model, linkedTicket);
+
+        const mapStep = { ticket: mapTicket['Work item key'], note: '' };
+        contributors.push(...ticketContributors.map(contributor => ({
+            ...contributor,
+            trace: [mapStep, ...(contributor.trace ?? [])],
+        })));
+        decisions.push({
+            item: linkedId,
+            counted: true,
+            share,
+            reason: `${roundCents(ticketContributors.reduce((total, contributor) => total + contributor.hoursCost, 0))}h attributed`,
+        });
+    }
+
+    return contributors;
+}
+
+// The people a ticket's hours go to under an activity: from its own hours when they're
+// at least its children's WIP hours, and from its children otherwise. When traced from
+// a MAP ticket, each ticket's own hours are scaled to that MAP ticket's share of them.
+export function collectContributors(model: TicketModel, ticket: Ticket, rdtiActivity: string, mapTicket?: Ticket): Contributor[] {
+    const { config, roster } = model;
+    const contributors: Contributor[] = [];
+    const share = mapTicket ? getShareOfHours(model, ticket, mapTicket) : 1;
+
+    // Get base hours and people for this ticket
+    const baseHours = getBaseHours(model, ticket);
+    const mob = ticket['Mob'] || '';
+    const assignee = ticket['Assignee'] || '';
+    const worklogs = model.worklogs.get(ticket['Work item key']) ?? [];
+    const worklogHours = getClaimableWorklogHours(model, ticket);
+
+    // Get children
+    const children = getChildren(model.graph, ticket);
+
+    // Calculate children time using the same logic as getWIPHours
+    const childrenTime = children.reduce((total, child) => {
+        return total + getWIPHours(model, child);
+    }, 0);
+
+    // Use the same logic as getWIPHours: Math.max(baseHours * people, childrenTime)
+    const parentHours = worklogHours ?? baseHours * getPeopleCount(ticket);
+
+    // Parent has hours but children don't: everyone on the children gets the parent's
+    // hours, the same as in getWIPHours
+    const childrenPeople = getChildrenPeople(model, ticket);
+    if (childrenPeople) {
+        for (const person of childrenPeople) {
+            contributors.push({
+                project: rdtiActivity,
+                who: person,
+                role: classifyRole(person, roster),
+                activityType: classifyActivityType(rdtiActivity, config.classification),
+                hoursCost: baseHours,
+                phase: classifyPhase(ticket, config),
+                workItem: ticket['Work item key'],
+                method: 'children-people'
+            });
+        }
+        return addTraceStep(model, contributors, ticket, `parent ${roundCents(baseHours)}h × ${countPeople(childrenPeople.length)} on children`, share);
+    }
+
+    // Use the same max logic as getWIPHours
+    if (parentHours >= childrenTime) {
+        // Use parent hours - collect contributors from this ticket
+        if (worklogHours !== undefined) {
+            // One entry per person per day they logged time
+            const byAuthorAndDay = new Map<string, Contributor>();
+            for (const worklog of worklogs) {
+                const key = `${worklog.author}|${formatDate(worklog.started)}`;
+                const existing = byAuthorAndDay.get(key);
+                if (existing) {
+                    existing.hoursCost += worklog.hours;
+                    continue;
+                }
+                byAuthorAndDay.set(key, {
+                    project: rdtiActivity,
+                    who: worklog.author,
+                    role: classifyRole(worklog.author, roster),
+                    activityType: classifyActivityType(rdtiActivity, config.classification),
+                    hoursCost: worklog.hours,
+                    phase: classifyPhase(ticket, config),
+                    workItem: ticket['Work item key'],
+                    date: worklog.started,
+                    method: 'worklog'
+                });
+            }
+            contributors.push(...byAuthorAndDay.values());
+        }
+        else if (mob && mob.trim() !== '') {
+            const people = mob.split(',').map((name: string) => name.trim()).filter((name: string) => name !== '');
+            people.forEach((person: string) => {
+                contributors.push({
+                    project: rdtiActivity,
+                    who: person,
+                    role: classifyRole(person, roster),
+                    activityType: classifyActivityType(rdtiActivity, config.classification),
+                    hoursCost: baseHours,
+                    phase: classifyPhase(ticket, config),
+                    workItem: ticket['Work item key'],
+                    method: 'mob'
+                });
+            });
+        }
+        // If ticket has assignee but no mob, create entry for assignee
+        else if (assignee && assignee.trim() !== '' && assignee.trim() !== 'Unassigned') {
+            contributors.push({
+                project: rdtiActivity,
+                who: assignee,
+                role: classifyRole(assignee, roster),
+                activityType: classifyActivityType(rdtiActivity, config.classification),
+                hoursCost: baseHours,
+                phase: classifyPhase(ticket, config),
+                workItem: ticket['Work item key'],
+                method: 'assignee'
+            });
+        }
+        // If ticket has hours but NO contributors found, add as "Unassigned"
+        else if (baseHours > 0) {
+            contributors.push({
+                project: rdtiActivity,
+                who: 'Unassigned',
+                role: classifyRole('Unassigned', roster),
+                activityType: classifyActivityType(rdtiActivity, config.classification),
+                hoursCost: baseHours,
+                phase: classifyPhase(ticket, config),
+                workItem: ticket['Work item key'],
+                method: 'unassigned'
+            });
+        }
+        if (isExcluded(model, ticket)) {
+            return addTraceStep(model, contributors, ticket, 'own hours excluded', share);
+        }
+        const ownHours = children.length > 0 ? `own ${roundCents(parentHours)}h ≥ children ${roundCents(childrenTime)}h` : `own ${roundCents(parentHours)}h`;
+        return addTraceStep(model, contributors, ticket, `${ownHours} (${describeMethod(contributors)})`, share);
+    } else {
+        // Use children time - collect contributors from children
+        children.forEach(child => {
+            const childContributors = collectContributors(model, child, rdtiActivity, mapTicket);
+            contributors.push(...childContributors);
+        });
+        return addTraceStep(model, contributors, ticket, `children ${roundCents(childrenTime)}h > own ${roundCents(parentHours)}h`);
+    }
+}
+
+// Keys of the tickets whose hours MAP tickets reached: the tickets they traced, and the
+// descendants of those, whose hours their ancestors' hours stand for
+export function reachedTickets(model: TicketModel): Set<string> {
+    const reached = new Set<string>();
+    for (const key of model.derivation.hourChoices.keys()) {
+        const ticket = model.graph.tickets.get(key);
+        if (!ticket || reached.has(key)) continue;
+        reached.add(key);
+        getDescendantKeys(model.graph, ticket).forEach(descendant => reached.add(descendant));
+    }
+    return reached;
+}
+
+// The most hours each ticket can contribute: its worklog hours, or its hours for every
+// person on it, or for every person on its children when only the parent has hours
+export function loggedHoursByTicket(model: TicketModel): Map<string, number> {
+    const loggedByTicket = new Map<string, number>();
+    for (const ticket of model.rows) {
+        const worklogHours = getWorklogHours(model, ticket);
+        if (worklogHours !== undefined) {
+            loggedByTicket.set(ticket['Work item key'], worklogHours);
+            continue;
+        }
+        const baseHours = getOwnHours(model, ticket);
+        const childrenPeople = getChildren(model.graph, ticket).reduce((total, child) => total + getPeopleCount(child), 0);
+        loggedByTicket.set(ticket['Work item key'], baseHours * Math.max(getPeopleCount(ticket), childrenPeople));
+    }
+    return loggedByTicket;
+}
+
+// The number of people working on a ticket: everyone in its mob, or else one
+export function getPeopleCount(ticket: Ticket): number {
+    return getPeople(ticket).length;
+}
+
+// The people working on a ticket: everyone in its mob, or else its assignee, or else
+// one 'Unassigned' person
+function getPeople(ticket: Ticket): string[] {
+    const mob = ticket['Mob'] || '';
+    const assignee = ticket['Assignee'] || '';
+
+    // If there's a mob, it's everyone in it (comma-separated)
+    if (mob && mob.trim() !== '') {
+        return mob.split(',').map((name: string) => name.trim()).filter((name: string) => name !== '');
+    }
+
+    // If there's an assignee but no mob, it's one person
+    if (assignee && assignee.trim() !== '' && assignee.trim() !== 'Unassigned') {
+        return [assignee];
+    }
+
+    // Default to one unassigned person if no clear assignment
+    return ['Unassigned'];
+}
+
+// The people on a ticket's children when its own hours count once for each of them:
+// it has hours and no worklogs, its children have no hours of their own, and there
+// are more people on its children than on it. Otherwise undefined.
+function getChildrenPeople(model: TicketModel, ticket: Ticket): string[] | undefined {
+    const children = getChildren(model.graph, ticket);
+    if (children.length === 0 || getBaseHours(model, ticket) <= 0 || getClaimableWorklogHours(model, ticket) !== undefined) {
+        return undefined;
+    }
+    if (children.some(child => getBaseHours(model, child) > 0 || getClaimableWorklogHours(model, child) !== undefined)) {
+        return undefined;
+    }
+    const people = children.flatMap(getPeople);
+    return people.length > getPeopleCount(ticket) ? people : undefined;
+}
+
+// A ticket's own hours from its hours sources
+export function getOwnHours(model: TicketModel, ticket: Ticket): number {
+    return model.hours.get(ticket)?.hours ?? 0;
+}
+
+// The hours logged in a ticket's worklogs, or undefined when it has none and its hours
+// come from its hours sources
+export function getWorklogHours(model: TicketModel, ticket: Ticket): number | undefined {
+    const worklogs = model.worklogs.get(ticket['Work item key']);
+    return worklogs && worklogs.length > 0 ? sumWorklogHours(worklogs) : undefined;
+}
+
+// The Work Hours a ticket can contribute; none when it's excluded
+function getBaseHours(model: TicketModel, ticket: Ticket): number {
+    return isExcluded(model, ticket) ? 0 : getOwnHours(model, ticket);
+}
+
+// The worklog hours a ticket can contribute; none when it's excluded
+function getClaimableWorklogHours(model: TicketModel, ticket: Ticket): number | undefined {
+    return isExcluded(model, ticket) ? undefined : getWorklogHours(model, ticket);
+}
+
+// Record which hours were used for a ticket and put that step at the front of each
+// contributor's trace. The ticket's own contributions are scaled to `share`, the part
+// of its hours the MAP ticket claims.
+function addTraceStep(model: TicketModel, contributors: Contributor[], ticket: Ticket, note: string, share = 1): Contributor[] {
+    model.derivation.hourChoices.set(ticket['Work item key'], note);
+    const step = { ticket: ticket['Work item key'], note: share === 1 ? note : `${note} at ${Math.round(share * 100)}%` };
+    for (const contributor of contributors) {
+        if (share !== 1) contributor.hoursCost *= share;
+        contributor.trace = [step, ...(contributor.trace ?? [])];
+    }
+    return contributors;
+}
+
+// Who a ticket's own hours went to
+function describeMethod(contributors: Contributor[]): string {
+    const method = contributors[0]?.method;
+    switch (method) {
+        case 'worklog': return `worklogs of ${countPeople(new Set(contributors.map(contributor => contributor.who)).size)}`;
+        case 'mob': return `mob of ${contributors.length}`;
+        case undefined: return 'nobody to attribute to';
+        default: return method;
+    }
+}
+
+// A number of people in a derivation note
+function countPeople(count: number): string {
+    return `${count} ${count === 1 ? 'person' : 'people'}`;
+}
@@ -0,0 +1,89 @@
+import ExcelJS from 'exceljs';
+import path from 'path';
+import { defaultColumnHeaders } from './columns';
+
+export type BenchmarkOptions = {
+    // Approximate number of ticket rows
+    tickets: number;
+    // Same seed, same workbook
+    seed: number;
+    out: string;
+};
+
+const PEOPLE = ['Alice', 'Bob', 'Carol', 'Dan', 'Erin', 'Frank', 'Grace', 'Heidi', 'Ivan', 'Judy', 'Mallory', 'Niaj'];
+const ACTIVITIES = ['Search ranking', 'Fraud detection', 'Route optimisation', 'Platform', 'Forecasting'];
+
+// Write a synthetic export shaped like a real one: MAP ideas linked to epics, with
+// stories and sub-tasks below them, some shared between ideas and some unlinked work,
+// spread over a financial year. Used to time runs over large exports.
+export async function generateBenchmarkExport(options: BenchmarkOptions): Promise<number> {
+    const random = seededRandom(options.seed);
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+    const columns = defaultColumnHeaders();
+    const headers = [columns.key, 'Summary', columns.parent, columns.linkedWorkItems, columns.rdtiActivity, columns.workType,
+        columns.status, columns.workHours, columns.mob, columns.assignee, columns.labels, columns.created, columns.resolved];
+
+    const rows: (string | Date)[][] = [];
+    const yearStart = Date.UTC(2025, 6, 1);
+    const dates = () => {
+        const created = new Date(yearStart + Math.floor(random() * 330) * 86400000);
+        const resolved = random() < 0.8 ? new Date(created.getTime() + Math.floor(1 + random() * 30) * 86400000) : '';
+        return [created, resolved];
+    };
+    const hours = () => (random() < 0.15 ? '' : `${Math.floor(random() * 3)}d ${Math.floor(random() * 8)}h`.replace(/^0d /, ''));
+    const people = () => (random() < 0.2 ? [pick(PEOPLE), pick(PEOPLE)].join(', ') : '');
+    const assignee = () => (random() < 0.1 ? '' : pick(PEOPLE));
+
+    let devNumber = 0;
+    const ideaCount = Math.max(1, Math.round(options.tickets / 60));
+    const ideaLinks: string[][] = Array.from({ length: ideaCount }, () => []);
+
+    while (rows.length + ideaCount < options.tickets) {
+        const epicKey = `DEV-${++devNumber}`;
+        const idea = Math.floor(random() * ideaCount);
+        // A few epics are shared between two ideas
+        const linked = [`MAP-${idea + 1}`];
+        if (random() < 0.05) linked.push(`MAP-${((idea + 1) % ideaCount) + 1}`);
+        // ...and some aren't linked to any
+        const unlinked = random() < 0.1;
+        if (!unlinked) linked.forEach(mapKey => ideaLinks[Number(mapKey.slice(4)) - 1].push(epicKey));
+
+        rows.push([epicKey, `Epic ${devNumber}`, '', unlinked ? '' : linked.join(', '), '', 'Epic', 'In Progress', hours(), '', assignee(), '', ...dates()]);
+
+        const storyCount = 2 + Math.floor(random() * 6);
+        for (let s = 0; s < storyCount; s++) {
+            const storyKey = `DEV-${++devNumber}`;
+            const labels = random() < 0.1 ? pick(['spike', 'experiment']) : '';
+            rows.push([storyKey, `Story ${devNumber}`, `${epicKey} Epic`, '', '', 'Story', 'Done', hours(), people(), assignee(), labels, ...dates()]);
+
+            const subtaskCount = random() < 0.3 ? 1 + Math.floor(random() * 3) : 0;
+            for (let t = 0; t < subtaskCount; t++) {
+                const subtaskKey = `DEV-${++devNumber}`;
+                rows.push([subtaskKey, `Sub-task ${devNumber}`, `${storyKey} Story`, '', '', 'Sub-task', 'Done', hours(), '', assignee(), '', ...dates()]);
+            }
+        }
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Export');
+    sheet.addRow(headers);
+    ideaLinks.forEach((links, index) => {
+        sheet.addRow([`MAP-${index + 1}`, `Idea ${index + 1}`, '', links.join(', '), ACTIVITIES[index % ACTIVITIES.length], 'Idea', 'Discovery', '', '', '', '', '', '']);
+    });
+    rows.forEach(row => sheet.addRow(row));
+
+    await workbook.xlsx.writeFile(path.resolve(options.out));
+    return ideaCount + rows.length;
+}
+
+// Small deterministic PRNG (mulberry32) so fixtures are reproducible
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
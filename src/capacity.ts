@@ -0,0 +1,211 @@
+import { InputError } from './errors';
+import { formatDate, Period } from './periods';
+import { roundCents } from './rates';
+import { eachSheetRow, normalizePerson, readSheetFile, rejectInvalidRows, requireColumns, toDateCell, toNumberCell } from './sheets';
+import { Contributor } from './types';
+import { Issue } from './validation';
+
+export type CapacityColumns = {
+    person: string;
+    fte: string;
+    startDate: string;
+    endDate: string;
+    leaveHours: string;
+    hoursPaid: string;
+};
+
+export const DEFAULT_CAPACITY_COLUMNS: CapacityColumns = {
+    person: 'Person',
+    fte: 'FTE',
+    startDate: 'Start Date',
+    endDate: 'End Date',
+    leaveHours: 'Leave Hours',
+    hoursPaid: 'Hours Paid',
+};
+
+export type CapacitySettings = {
+    file?: string;
+    columns: CapacityColumns;
+    // Public holidays (YYYY-MM-DD) taken off everyone's working days
+    holidays: string[];
+};
+
+export const DEFAULT_CAPACITY_SETTINGS: CapacitySettings = {
+    columns: DEFAULT_CAPACITY_COLUMNS,
+    holidays: [],
+};
+
+// One row of the capacity file. A person can have several rows, e.g. when their FTE
+// changed during the period.
+export type CapacityEntry = {
+    person: string;
+    fte: number;
+    // Inclusive employment dates; open-ended when missing
+    startDate?: Date;
+    endDate?: Date;
+    // Leave taken in the period
+    leaveHours: number;
+    // Total hours paid in the period from payroll; used as is instead of working days
+    hoursPaid?: number;
+};
+
+// Capacity entries keyed by normalized person name
+export type Capacity = Map<string, CapacityEntry[]>;
+
+// A person's R&D hours against the hours they were paid for in the period
+export type PersonCapacity = {
+    who: string;
+    // Undefined when the person has no capacity entry
+    availableHours?: number;
+    // How the available hours were worked out
+    basis: string;
+    rdHours: number;
+    overCapacity: boolean;
+};
+
+// Attributed hours can exceed capacity by this much before a person is flagged
+const CAPACITY_TOLERANCE = 0.01;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Read a capacity file from a .csv or .xlsx file (first sheet), one row per person
+// and employment period
+export async function readCapacity(file: string, columns: CapacityColumns): Promise<Capacity> {
+    const sheet = await readSheetFile(file, 'Capacity file');
+    // Each row needs either an FTE or the hours paid, so one of the columns is enough
+    requireColumns(sheet, [columns.person, [columns.fte, columns.hoursPaid]]);
+
+    const capacity: Capacity = new Map();
+    const problems: string[] = [];
+
+    eachSheetRow(sheet, (cell, rowNumber) => {
+        const person = String(cell(columns.person) ?? '').trim();
+        if (!person) return;
+
+        const fte = toNumberCell(cell(columns.fte));
+        const hoursPaid = toNumberCell(cell(columns.hoursPaid));
+        const leaveHours = toNumberCell(cell(columns.leaveHours));
+        const startDate = toDateCell(cell(columns.startDate));
+        const endDate = toDateCell(cell(columns.endDate));
+
+        if (fte === null || (fte !== undefined && (fte < 0 || fte > 1))) {
+            problems.push(`row ${rowNumber}: FTE for ${person} must be a number from 0 to 1`);
+            return;
+        }
+        if (hoursPaid === null || leaveHours === null || (hoursPaid ?? 0) < 0 || (leaveHours ?? 0) < 0) {
+            problems.push(`row ${rowNumber}: invalid hours paid or leave hours for ${person}`);
+            return;
+        }
+        if (fte === undefined && hoursPaid === undefined) {
+            problems.push(`row ${rowNumber}: ${person} needs an FTE or hours paid`);
+            return;
+        }
+        if (startDate === null || endDate === null) {
+            problems.push(`row ${rowNumber}: invalid start or end date for ${person}`);
+            return;
+        }
+
+        const entries = capacity.get(normalizePerson(person)) ?? [];
+        entries.push({ person, fte: fte ?? 1, startDate, endDate, leaveHours: leaveHours ?? 0, hoursPaid });
+        capacity.set(normalizePerson(person), entries);
+    });
+
+    rejectInvalidRows(sheet, problems);
+    return capacity;
+}
+
+// Whether working out every entry's available hours needs a claim period; entries
+// with hours paid don't
+export function capacityNeedsPeriod(capacity: Capacity): boolean {
+    return Array.from(capacity.values()).some(entries => entries.some(entry => entry.hoursPaid === undefined));
+}
+
+// Hours a capacity entry makes available in the period: the hours paid when given,
+// otherwise weekdays employed in the period, less public holidays, at the FTE,
+// less leave
+export function availableHours(entry: CapacityEntry, period: Period | undefined, holidays: Set<string>, hoursPerDay: number): { hours: number; basis: string } {
+    if (entry.hoursPaid !== undefined) {
+        return { hours: entry.hoursPaid, basis: `${roundCents(entry.hoursPaid)}h paid` };
+    }
+    if (!period) {
+        throw new InputError(`Capacity for ${entry.person} needs a claim period or hours paid`);
+    }
+
+    const start = entry.startDate && entry.startDate > period.start ? startOfDay(entry.startDate) : period.start;
+    const end = entry.endDate && entry.endDate.getTime() + DAY_MS < period.end.getTime() ? new Date(startOfDay(entry.endDate).getTime() + DAY_MS) : period.end;
+
+    let workingDays = 0;
+    for (let day = start.getTime(); day < end.getTime(); day += DAY_MS) {
+        const date = new Date(day);
+        const weekday = date.getUTCDay();
+        if (weekday !== 0 && weekday !== 6 && !holidays.has(formatDate(date))) workingDays++;
+    }
+
+    const hours = Math.max(0, workingDays * hoursPerDay * entry.fte - entry.leaveHours);
+    const leave = entry.leaveHours > 0 ? ` − ${roundCents(entry.leaveHours)}h leave` : '';
+    return { hours, basis: `${workingDays} working days × ${hoursPerDay}h × ${entry.fte} FTE${leave}` };
+}
+
+// Each person's claimed R&D hours against their available hours, with an error for
+// anyone attributed more hours than they have
+export function compareCapacity(
+    capacity: Capacity,
+    attributed: Contributor[],
+    period: Period | undefined,
+    settings: CapacitySettings,
+    hoursPerDay: number
+): { people: PersonCapacity[]; issues: Issue[] } {
+    const holidays = new Set(settings.holidays);
+    const issues: Issue[] = [];
+
+    // R&D hours by normalized name, keeping the first spelling seen
+    const rdHours = new Map<string, { who: string; hours: number }>();
+    for (const contributor of attributed) {
+        if (contributor.who === 'Unassigned') continue;
+        const key = normalizePerson(contributor.who);
+        const totals = rdHours.get(key) ?? { who: contributor.who, hours: 0 };
+        totals.hours += contributor.hoursCost;
+        rdHours.set(key, totals);
+    }
+
+    const people: PersonCapacity[] = [];
+    const names = new Set([...rdHours.keys(), ...capacity.keys()]);
+    for (const key of names) {
+        const entries = capacity.get(key);
+        const who = rdHours.get(key)?.who ?? entries![0].person;
+        const hours = rdHours.get(key)?.hours ?? 0;
+
+        if (!entries) {
+            people.push({ who, basis: 'No capacity entry', rdHours: hours, overCapacity: false });
+            issues.push({
+                severity: 'warning',
+                ticket: '',
+                check: 'No capacity',
+                message: `${who} has ${roundCents(hours)} R&D hours but no capacity entry, so their R&D share is unknown`,
+            });
+            continue;
+        }
+
+        const available = entries.map(entry => availableHours(entry, period, holidays, hoursPerDay));
+        const availableTotal = available.reduce((total, item) => total + item.hours, 0);
+        const overCapacity = hours > availableTotal + CAPACITY_TOLERANCE;
+        people.push({ who, availableHours: availableTotal, basis: available.map(item => item.basis).join('; '), rdHours: hours, overCapacity });
+
+        if (overCapacity) {
+            issues.push({
+                severity: 'error',
+                ticket: '',
+                check: 'Over capacity',
+                message: `${who} is attributed ${roundCents(hours)} R&D hours but only has ${roundCents(availableTotal)} available; ` +
+                    `check their mob tickets, where the Work Hours count once for every person in the mob`,
+            });
+        }
+    }
+
+    people.sort((a, b) => a.who.localeCompare(b.who));
+    return { people, issues };
+}
+
+function startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
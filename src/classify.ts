@@ -0,0 +1,96 @@
+import { AnchorRule, matchesAnchorRule } from './anchors';
+import { Config } from './config';
+import { eachSheetRow, normalizePerson, readSheetFile, rejectInvalidRows, requireColumns } from './sheets';
+import { Ticket } from './types';
+
+// Core R&D activities, and the supporting activities claimed alongside them
+export type ActivityType = 'Core' | 'Supporting';
+
+export const ACTIVITY_TYPES: ActivityType[] = ['Core', 'Supporting'];
+
+export const ROLES = ['Employee', 'Contractor', 'Director', 'Associate'];
+
+// Shown for anything no rule or roster entry classifies
+export const UNKNOWN = 'Unknown';
+
+// A ticket's phase when it matches the rule's conditions. The conditions work the same
+// way as in anchor rules; a rule without conditions matches every ticket.
+export type PhaseRule = AnchorRule & {
+    phase: string;
+};
+
+export type RosterColumns = {
+    person: string;
+    role: string;
+};
+
+export const DEFAULT_ROSTER_COLUMNS: RosterColumns = {
+    person: 'Person',
+    role: 'Role',
+};
+
+export type ClassificationSettings = {
+    // Activity type per registered activity; '*' applies to activities not listed
+    activityTypes: Record<string, ActivityType>;
+    // Phase rules, first match wins
+    phases: PhaseRule[];
+    // People roster with each person's role; without one everyone is an Employee
+    roster: {
+        file?: string;
+        columns: RosterColumns;
+    };
+};
+
+export const DEFAULT_CLASSIFICATION_SETTINGS: ClassificationSettings = {
+    activityTypes: { Platform: 'Supporting', '*': 'Core' },
+    phases: [
+        { phase: 'Experiment', label: ['spike', 'experiment'] },
+        { phase: 'Development' },
+    ],
+    roster: {
+        columns: DEFAULT_ROSTER_COLUMNS,
+    },
+};
+
+// Roles keyed by normalized person name
+export type Roster = Map<string, string>;
+
+export function classifyActivityType(activity: string, settings: ClassificationSettings): string {
+    return settings.activityTypes[activity] ?? settings.activityTypes['*'] ?? UNKNOWN;
+}
+
+export function classifyPhase(ticket: Ticket, config: Config): string {
+    return config.classification.phases.find(rule => matchesAnchorRule(ticket, rule, config))?.phase ?? UNKNOWN;
+}
+
+// A person's role from the roster. Without a roster, the role from the rate card
+// when there is one, or Employee.
+export function classifyRole(who: string, roster: Roster | undefined, rateCardRole?: string): string {
+    if (!roster) return rateCardRole || 'Employee';
+    return roster.get(normalizePerson(who)) ?? UNKNOWN;
+}
+
+// Read a people roster from a .csv or .xlsx file (first sheet), one row per person
+export async function readRoster(file: string, columns: RosterColumns): Promise<Roster> {
+    const sheet = await readSheetFile(file, 'Roster');
+    requireColumns(sheet, [columns.person, columns.role]);
+
+    const roster: Roster = new Map();
+    const problems: string[] = [];
+
+    eachSheetRow(sheet, (cell, rowNumber) => {
+        const person = String(cell(columns.person) ?? '').trim();
+        if (!person) return;
+
+        const roleText = String(cell(columns.role) ?? '').trim();
+        const role = ROLES.find(candidate => candidate.toLowerCase() === roleText.toLowerCase());
+        if (!role) {
+            problems.push(`row ${rowNumber}: role '${roleText}' for ${person} is not one of ${ROLES.join(', ')}`);
+            return;
+        }
+        roster.set(normalizePerson(person), role);
+    });
+
+    rejectInvalidRows(sheet, problems);
+    return roster;
+}
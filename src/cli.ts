@@ -0,0 +1,406 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs, ParseArgsConfig } from 'util';
+import { Config, loadConfig } from './config';
+import { RdTrackingError, UsageError } from './errors';
+import { generateBenchmarkExport } from './benchmark';
+import { loadJiraFixtures, startMockJiraServer } from './jiraMockServer';
+import { explainTicket } from './explain';
+import { diffSnapshots, formatDiff } from './diff';
+import { expandInputs } from './merge';
+import { buildRegistrationPacks, PACK_FORMATS, PackFormat, writeRegistrationPacks } from './pack';
+import { AnalysisOptions, describeSource } from './load';
+import { Logger } from './log';
+import { analyseTickets, processWorkbook } from './process';
+import { buildSnapshot, readSnapshot, Snapshot } from './snapshot';
+import { startServer } from './server';
+
+// Progress messages, warnings and errors from the library go to the console
+const CONSOLE: Logger = {
+    info: message => console.log(message),
+    warn: message => console.warn(message),
+    error: message => console.error(message),
+};
+
+type ParsedArgs = {
+    values: Record<string, string | string[] | boolean | undefined>;
+    positionals: string[];
+};
+
+type Command = {
+    summary: string;
+    usage: string;
+    options: NonNullable<ParseArgsConfig['options']>;
+    allowPositionals?: boolean;
+    run(args: ParsedArgs): Promise<void>;
+};
+
+const COMMON_OPTIONS = {
+    config: { type: 'string', short: 'c' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+// Options for reading the tickets and the files that go with them, shared by the
+// commands that run the attribution
+const INPUT_OPTIONS = {
+    input: { type: 'string', short: 'i', multiple: true },
+    sheet: { type: 'string', short: 's' },
+    jql: { type: 'string' },
+    offline: { type: 'boolean' },
+    rates: { type: 'string', short: 'r' },
+    roster: { type: 'string' },
+    period: { type: 'string', short: 'p' },
+    worklogs: { type: 'string' },
+    'worklog-sheet': { type: 'string' },
+    capacity: { type: 'string' },
+    overrides: { type: 'string' },
+} as const;
+
+const INPUT_USAGE = [
+    '  -i, --input          Jira export (.xlsx, .csv, .json, .ndjson) to read; repeat it, or give a directory',
+    '                       of exports, to merge them',
+    '  -s, --sheet          Sheet name or 1-based sheet number in each .xlsx export (default: first sheet)',
+    '      --jql            Fetch tickets from the Jira Cloud API instead (default query: jira.jql in the config);',
+    '                       uses JIRA_BASE_URL, JIRA_EMAIL and JIRA_API_TOKEN',
+    '      --offline        With --jql, only use responses cached by earlier runs',
+    '  -r, --rates          Rate card (.csv, .xlsx) of hourly and on-cost rates per person',
+    '      --roster         People roster (.csv, .xlsx) of each person\'s role',
+    '  -p, --period         Claim period: FY2026, FY2026-Q1 or 2025-07-01..2025-12-31',
+    '      --worklogs       Worklog file (.xlsx, .csv) of ticket, author, started and time spent rows;',
+    '                       hours are attributed per author from worklogs where a ticket has them',
+    '      --worklog-sheet  Worklog sheet name or number, in --worklogs or else in the input workbook',
+    '      --capacity       Capacity file (.csv, .xlsx) of each person\'s FTE, dates and leave, or hours paid;',
+    '                       adds each person\'s R&D share and flags anyone over capacity',
+    '      --overrides      Analyst overrides (.yaml, .csv, .xlsx) that move, re-hour, reassign or exclude a',
+    '                       work item\'s hours, each with a reason and author; listed on an Adjustments sheet',
+];
+
+const COMMANDS: Record<string, Command> = {
+    process: {
+        summary: 'Fill in R&DTI activities and WIP hours and write the claim workbook',
+        usage: [
+            'rd-tracking process (--input <file|dir>... | --jql <query>) [--sheet <name|number>] [--out <file>] [--rates <file>] [--roster <file>] [--period <period>] [--worklogs <file>] [--worklog-sheet <name|number>] [--capacity <file>] [--overrides <file>] [--strict] [--provenance] [--annotate] [--snapshot <file>] [--config <file>]',
+            '',
+            ...INPUT_USAGE,
+            '  -o, --out            Output file (default: <input>_with_rdti.xlsx, or jira_with_rdti.xlsx); .csv writes',
+            '                       one <out>.<sheet>.csv per sheet, .json or .ndjson the contributor and summary rows',
+            '      --strict         Exit with an error when the validation pass finds data-quality errors',
+            '      --provenance     Add a Provenance column with each row\'s derivation to \'Transformed Data\'',
+            '      --annotate       Write into a copy of the input workbook, keeping its formatting, instead of a',
+            '                       new \'Results\' sheet; filled-in activities are highlighted with their MAP ticket',
+            '      --snapshot       Where to save the run\'s snapshot for diff (default: <out>.snapshot.json)',
+            '  -c, --config         Project config file (.json, .yaml); defaults to rd-tracking.config.* in the current directory',
+        ].join('\n'),
+        options: {
+            ...COMMON_OPTIONS,
+            ...INPUT_OPTIONS,
+            out: { type: 'string', short: 'o' },
+            strict: { type: 'boolean' },
+            provenance: { type: 'boolean' },
+            snapshot: { type: 'string' },
+            annotate: { type: 'boolean' },
+        },
+        async run({ values }) {
+            const config = loadConfig(values.config as string | undefined);
+            const options = analysisOptions(values, config);
+            const out = (values.out as string | undefined) ?? defaultOutputFile(options.input?.[0] ?? 'jira.xlsx');
+            await processWorkbook({
+                ...options,
+                out,
+                strict: values.strict as boolean | undefined,
+                provenance: values.provenance as boolean | undefined,
+                snapshot: values.snapshot as string | undefined,
+                annotate: values.annotate as boolean | undefined,
+            }, config);
+        },
+    },
+    explain: {
+        summary: 'Show how a ticket\'s R&DTI activity and hours were derived',
+        usage: [
+            'rd-tracking explain <TICKET-KEY> (--input <file|dir>... | --jql <query>) [--sheet <name|number>] [--rates <file>] [--roster <file>] [--period <period>] [--worklogs <file>] [--worklog-sheet <name|number>] [--capacity <file>] [--overrides <file>] [--config <file>]',
+            '',
+            'Prints which MAP ticket supplied the activity, which linked items were counted or skipped,',
+            'whether a ticket\'s own or its children\'s hours were used at each level, and the per-person split.',
+            '',
+            ...INPUT_USAGE,
+            '  -c, --config         Project config file (.json, .yaml); defaults to rd-tracking.config.* in the current directory',
+        ].join('\n'),
+        options: {
+            ...COMMON_OPTIONS,
+            ...INPUT_OPTIONS,
+        },
+        allowPositionals: true,
+        async run({ values, positionals }) {
+            if (positionals.length !== 1) {
+                throw new UsageError('explain needs exactly one ticket key, e.g. rd-tracking explain DEV-123 --input jira.xlsx');
+            }
+            const config = loadConfig(values.config as string | undefined);
+            const analysis = await analyseTickets(analysisOptions(values, config), config);
+            console.log('');
+            console.log(explainTicket(analysis, positionals[0]).join('\n'));
+        },
+    },
+    pack: {
+        summary: 'Write a registration pack (Markdown, HTML) for each R&D activity',
+        usage: [
+            'rd-tracking pack (--input <file|dir>... | --jql <query>) [--out-dir <dir>] [--format markdown|html] [--period <period>] [...] [--config <file>]',
+            '',
+            'Each pack has the activity\'s type, its MAP ideas with their description, hypothesis and',
+            'outcome (field names under registrationPack.fields in the config), the delivery tickets with',
+            'hours, the people involved, the period covered and links to every ticket as evidence.',
+            'The same input gives the same packs, so they can be attached to the claim records.',
+            '',
+            ...INPUT_USAGE,
+            '  -o, --out-dir        Directory to write the packs to (default: registration-packs)',
+            '  -f, --format         Only write markdown or html (default: both)',
+            '  -c, --config         Project config file (.json, .yaml); defaults to rd-tracking.config.* in the current directory',
+        ].join('\n'),
+        options: {
+            ...COMMON_OPTIONS,
+            ...INPUT_OPTIONS,
+            'out-dir': { type: 'string', short: 'o' },
+            format: { type: 'string', short: 'f' },
+        },
+        async run({ values }) {
+            const format = values.format as string | undefined;
+            if (format !== undefined && !PACK_FORMATS.includes(format as PackFormat)) {
+                throw new UsageError(`Invalid format '${format}' (expected ${PACK_FORMATS.join(' or ')})`);
+            }
+            const config = loadConfig(values.config as string | undefined);
+            const options = analysisOptions(values, config);
+            const analysis = await analyseTickets(options, config);
+
+            // The inputs' names and hashes rather than their full paths, so packs don't depend on where they were made
+            const sources = options.input !== undefined
+                ? expandInputs(options.input).map(file => ({
+                    name: path.basename(file),
+                    sha256: crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex'),
+                }))
+                : [{ name: describeSource(options, config) }];
+            const packs = buildRegistrationPacks(analysis, config, sources);
+            const outDir = (values['out-dir'] as string | undefined) ?? 'registration-packs';
+            const written = writeRegistrationPacks(packs, outDir, format ? [format as PackFormat] : PACK_FORMATS);
+            console.log(`✅ Wrote ${packs.length} registration packs (${written.length} files) to ${outDir}`);
+        },
+    },
+    diff: {
+        summary: 'Compare two runs, or the current run against a saved snapshot',
+        usage: [
+            'rd-tracking diff <before> [<after>] [--config <file>]',
+            'rd-tracking diff <before> (--input <file|dir>... | --jql <query>) [--sheet <name|number>] [--period <period>] [...]',
+            '',
+            'Each run is a snapshot saved by process (.snapshot.json) or an output workbook (.xlsx).',
+            'Without <after>, the tickets are read and attributed again and compared with <before>.',
+            'Reports tickets added, removed or with changed hours by activity and person, tickets whose',
+            'R&DTI activity changed, and the change in Sum of WIP hours per MAP ticket.',
+            '',
+            ...INPUT_USAGE,
+            '  -c, --config         Project config file (.json, .yaml); defaults to rd-tracking.config.* in the current directory',
+        ].join('\n'),
+        options: {
+            ...COMMON_OPTIONS,
+            ...INPUT_OPTIONS,
+        },
+        allowPositionals: true,
+        async run({ values, positionals }) {
+            if (positionals.length < 1 || positionals.length > 2) {
+                throw new UsageError('diff needs one or two runs, e.g. rd-tracking diff before.snapshot.json after.snapshot.json');
+            }
+            const config = loadConfig(values.config as string | undefined);
+            const before = await readSnapshot(positionals[0], config);
+            let after: Snapshot;
+            if (positionals.length === 2) {
+                if (values.input !== undefined || values.jql !== undefined) {
+                    throw new UsageError('Compare two runs, or one run against --input/--jql, not both');
+                }
+                after = await readSnapshot(positionals[1], config);
+            } else {
+                const options = analysisOptions(values, config);
+                after = buildSnapshot(await analyseTickets(options, config), describeSource(options, config), config);
+            }
+            console.log('');
+            console.log(`Before: ${before.source}${before.period ? ` (${before.period})` : ''} ${before.createdAt}`);
+            console.log(`After:  ${after.source}${after.period ? ` (${after.period})` : ''} ${after.createdAt}`);
+            console.log('');
+            console.log(formatDiff(diffSnapshots(before, after)).join('\n'));
+        },
+    },
+    serve: {
+        summary: 'Serve a local web page for uploading exports and reviewing the attribution',
+        usage: [
+            'rd-tracking serve [--port <port>] [--config <file>]',
+            '',
+            'Open the printed address in a browser to upload one or more exports, with an optional rate card,',
+            'roster, worklogs, capacity or overrides file, and pick the claim period. The results page shows',
+            'the hours per activity and person, each MAP ticket\'s linked items and contributors, and the',
+            'data-quality issues, with a link to download the workbook. It only listens on localhost and',
+            'needs no network access.',
+            '',
+            '  -p, --port           Port to listen on (default: 4000)',
+            '  -c, --config         Project config file (.json, .yaml); defaults to rd-tracking.config.* in the current directory',
+        ].join('\n'),
+        options: {
+            ...COMMON_OPTIONS,
+            port: { type: 'string', short: 'p' },
+        },
+        async run({ values }) {
+            const port = Number(values.port ?? 4000);
+            if (!Number.isInteger(port) || port < 0 || port > 65535) {
+                throw new UsageError(`Invalid port '${values.port}'`);
+            }
+            const config = loadConfig(values.config as string | undefined);
+            const server = await startServer(config, port, CONSOLE);
+            console.log(`✅ Serving on ${server.url} (Ctrl-C to stop)`);
+            // Keep serving until the process is stopped
+            await new Promise(() => undefined);
+        },
+    },
+    'bench-fixture': {
+        summary: 'Generate a large synthetic export for timing runs',
+        usage: [
+            'rd-tracking bench-fixture [--tickets <count>] [--seed <number>] [--out <file>]',
+            '',
+            '  -n, --tickets  Approximate number of tickets (default: 15000)',
+            '      --seed     Seed for the generator; the same seed gives the same export (default: 1)',
+            '  -o, --out      Workbook to write (default: benchmark.xlsx)',
+            '',
+            'Time a run with e.g. `time rd-tracking process --input benchmark.xlsx`.',
+        ].join('\n'),
+        options: {
+            help: COMMON_OPTIONS.help,
+            tickets: { type: 'string', short: 'n' },
+            seed: { type: 'string' },
+            out: { type: 'string', short: 'o' },
+        },
+        async run({ values }) {
+            const tickets = Number(values.tickets ?? 15000);
+            const seed = Number(values.seed ?? 1);
+            if (!Number.isInteger(tickets) || tickets < 1) {
+                throw new UsageError(`Invalid ticket count '${values.tickets}'`);
+            }
+            if (!Number.isInteger(seed)) {
+                throw new UsageError(`Invalid seed '${values.seed}'`);
+            }
+            const out = (values.out as string | undefined) ?? 'benchmark.xlsx';
+            const written = await generateBenchmarkExport({ tickets, seed, out });
+            console.log(`✅ Wrote ${written} tickets to ${out}`);
+        },
+    },
+    'jira-mock': {
+        summary: 'Serve recorded Jira fixtures on localhost for trying out --jql offline',
+        usage: [
+            'rd-tracking jira-mock [--fixtures <dir>] [--port <port>]',
+            '',
+            '  -f, --fixtures  Directory with issues.json and queries.json (default: fixtures/jira)',
+            '  -p, --port      Port to listen on (default: 4010)',
+        ].join('\n'),
+        options: {
+            help: COMMON_OPTIONS.help,
+            fixtures: { type: 'string', short: 'f' },
+            port: { type: 'string', short: 'p' },
+        },
+        async run({ values }) {
+            const port = Number(values.port ?? 4010);
+            if (!Number.isInteger(port) || port < 0 || port > 65535) {
+                throw new UsageError(`Invalid port '${values.port}'`);
+            }
+            const fixtures = loadJiraFixtures(path.resolve((values.fixtures as string | undefined) ?? 'fixtures/jira'));
+            const server = await startMockJiraServer(fixtures, port);
+            console.log(`✅ Mock Jira listening on ${server.url} with ${fixtures.issues.length} issues (Ctrl-C to stop)`);
+            // Keep serving until the process is stopped
+            await new Promise(() => undefined);
+        },
+    },
+};
+
+// Read the input options shared by the commands that run the attribution
+function analysisOptions(values: ParsedArgs['values'], config: Config): AnalysisOptions {
+    const input = values.input as string[] | undefined;
+    const jql = values.jql as string | undefined;
+    if (input !== undefined && jql !== undefined) {
+        throw new UsageError('Use either --input or --jql, not both');
+    }
+    if (input === undefined && !jql && !config.jira.jql) {
+        throw new UsageError('Missing required option --input (or --jql, or jira.jql in the config file)');
+    }
+    return {
+        input,
+        sheet: values.sheet as string | undefined,
+        jql,
+        offline: values.offline as boolean | undefined,
+        rates: values.rates as string | undefined,
+        roster: values.roster as string | undefined,
+        period: values.period as string | undefined,
+        worklogs: values.worklogs as string | undefined,
+        worklogSheet: values['worklog-sheet'] as string | undefined,
+        capacity: values.capacity as string | undefined,
+        overrides: values.overrides as string | undefined,
+        log: CONSOLE,
+    };
+}
+
+// Run the command line and resolve to the process exit code
+export async function run(argv: string[]): Promise<number> {
+    try {
+        const [commandName, ...rest] = argv;
+
+        if (!commandName || commandName === 'help' || commandName === '--help' || commandName === '-h') {
+            const topic = commandName === 'help' ? rest[0] : undefined;
+            console.log(topic && COMMANDS[topic] ? COMMANDS[topic].usage : mainUsage());
+            return 0;
+        }
+
+        const command = COMMANDS[commandName];
+        if (!command) {
+            throw new UsageError(`Unknown command '${commandName}'.\n\n${mainUsage()}`);
+        }
+
+        const args = parseCommandArgs(command, rest);
+        if (args.values.help) {
+            console.log(command.usage);
+            return 0;
+        }
+
+        await command.run(args);
+        return 0;
+    } catch (error) {
+        if (error instanceof RdTrackingError) {
+            console.error(`❌ ${error.message}`);
+            return error.exitCode;
+        }
+        console.error('❌ Error occurred:', error);
+        return 1;
+    }
+}
+
+function parseCommandArgs(command: Command, args: string[]): ParsedArgs {
+    try {
+        return parseArgs({
+            args,
+            options: command.options,
+            allowPositionals: command.allowPositionals ?? false,
+            strict: true,
+        }) as ParsedArgs;
+    } catch (error) {
+        throw new UsageError(`${(error as Error).message}\n\nUsage: ${command.usage}`);
+    }
+}
+
+function defaultOutputFile(input: string): string {
+    const parsed = path.parse(input);
+    return path.join(parsed.dir, `${parsed.name}_with_rdti.xlsx`);
+}
+
+function mainUsage(): string {
+    const width = Math.max(...Object.keys(COMMANDS).map(name => name.length)) + 2;
+    const lines = Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(width)}${command.summary}`);
+    return [
+        'Usage: rd-tracking <command> [options]',
+        '',
+        'Commands:',
+        ...lines,
+        '',
+        "Run 'rd-tracking help <command>' for a command's options.",
+    ].join('\n');
+}
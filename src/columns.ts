@@ -0,0 +1,114 @@
+import { Config } from './config';
+import { InputError } from './errors';
+
+// Ticket fields the pipeline reads, by config id. `field` is the property the value
+// is stored under on a Ticket once the export has been read; it's also the default
+// header looked for in the export.
+export const TICKET_FIELDS = {
+    key: { field: 'Work item key', required: true },
+    parent: { field: 'Parent', required: false },
+    linkedWorkItems: { field: 'Linked work items', required: true },
+    rdtiActivity: { field: 'R&DTI Activity', required: true },
+    workType: { field: 'Work type', required: false },
+    status: { field: 'Status', required: false },
+    resolution: { field: 'Resolution', required: false },
+    components: { field: 'Components', required: false },
+    workHours: { field: 'Work Hours in Progress', required: false },
+    mob: { field: 'Mob', required: false },
+    assignee: { field: 'Assignee', required: false },
+    labels: { field: 'Labels', required: false },
+    created: { field: 'Created', required: false },
+    resolved: { field: 'Resolved', required: false },
+    statusCategoryChanged: { field: 'Status Category Changed', required: false },
+} as const;
+
+export type ColumnId = keyof typeof TICKET_FIELDS;
+
+export const COLUMN_IDS = Object.keys(TICKET_FIELDS) as ColumnId[];
+
+export function defaultColumnHeaders(): Record<ColumnId, string> {
+    const headers = {} as Record<ColumnId, string>;
+    for (const id of COLUMN_IDS) {
+        headers[id] = TICKET_FIELDS[id].field;
+    }
+    return headers;
+}
+
+// The Ticket property a field is stored under, given its column id or its export header
+export function ticketField(name: string, config: Config): string {
+    if ((COLUMN_IDS as string[]).includes(name)) return TICKET_FIELDS[name as ColumnId].field;
+    const id = COLUMN_IDS.find(id => config.columns[id] === name);
+    return id ? TICKET_FIELDS[id].field : name;
+}
+
+// The export header of a field given by column id or header
+export function columnHeader(name: string, config: Config): string {
+    return (COLUMN_IDS as string[]).includes(name) ? config.columns[name as ColumnId] : name;
+}
+
+export type ColumnResolution = {
+    // Ticket property to store each export header under
+    fieldByHeader: Map<string, string>;
+    // Optional ticket fields the export has no column for
+    missingOptional: ColumnId[];
+};
+
+// Match the export's headers against the configured column mapping. Every missing
+// required column, and every column an anchor rule or hours source reads, is reported
+// in one error.
+export function resolveColumns(headers: string[], config: Config): ColumnResolution {
+    const present = new Set(headers);
+    const fieldByHeader = new Map<string, string>();
+    const missing: string[] = [];
+    const missingOptional: ColumnId[] = [];
+
+    for (const id of COLUMN_IDS) {
+        const header = config.columns[id];
+        if (present.has(header)) {
+            fieldByHeader.set(header, TICKET_FIELDS[id].field);
+        } else if (isRequired(id, config)) {
+            missing.push(`'${header}' (${id})`);
+        } else {
+            missingOptional.push(id);
+        }
+    }
+
+    for (const source of config.hoursSources) {
+        const header = columnHeader(source.field, config);
+        if (!present.has(header)) {
+            missing.push(`'${header}' (hours source)`);
+        }
+    }
+    for (const rule of config.anchors) {
+        if (rule.field && !present.has(rule.field)) {
+            missing.push(`'${rule.field}' (anchor rule field)`);
+        }
+    }
+    for (const rule of [...config.eligibility.include, ...config.eligibility.exclude]) {
+        if (rule.field && !present.has(rule.field)) {
+            missing.push(`'${rule.field}' (eligibility rule field)`);
+        }
+    }
+
+    if (missing.length > 0) {
+        throw new InputError(
+            `The export is missing required column(s): ${Array.from(new Set(missing)).join(', ')}.\n` +
+            `Map them to the export's headers under 'columns' in the config file.`
+        );
+    }
+
+    return { fieldByHeader, missingOptional };
+}
+
+function isRequired(id: ColumnId, config: Config): boolean {
+    if (TICKET_FIELDS[id].required) return true;
+    // Columns become required once an anchor or eligibility rule depends on them
+    const rules = [...config.anchors, ...config.eligibility.include, ...config.eligibility.exclude];
+    if (id === 'workType') return rules.some(rule => rule.workType !== undefined);
+    if (id === 'status') return rules.some(rule => rule.status !== undefined);
+    if (id === 'resolution') return rules.some(rule => rule.resolution !== undefined);
+    if (id === 'labels') return rules.some(rule => rule.label !== undefined);
+    if (id === 'components') return rules.some(rule => rule.component !== undefined);
+    if (id === 'assignee') return rules.some(rule => rule.assignee !== undefined);
+    return false;
+}
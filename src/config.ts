@@ -0,0 +1,564 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { AnchorRule, ANCHOR_RULE_KEYS, DEFAULT_ANCHOR_RULES } from './anchors';
+import { CapacitySettings, DEFAULT_CAPACITY_COLUMNS, DEFAULT_CAPACITY_SETTINGS } from './capacity';
+import { ACTIVITY_TYPES, ActivityType, ClassificationSettings, DEFAULT_CLASSIFICATION_SETTINGS, DEFAULT_ROSTER_COLUMNS, PhaseRule } from './classify';
+import { ColumnId, COLUMN_IDS, defaultColumnHeaders } from './columns';
+import { DEFAULT_ELIGIBILITY_SETTINGS, EligibilityRule, EligibilitySettings } from './eligibility';
+import { ConfigError } from './errors';
+import { DEFAULT_HOURS_SOURCES, HOURS_UNITS, HoursSource, HoursUnit } from './hours';
+import { ACTIVITY_ORIGINS, ActivityOrigin, DEFAULT_ACTIVITY_PRECEDENCE } from './inheritance';
+import { DEFAULT_JIRA_SETTINGS, JiraSettings } from './jira';
+import { MULTI_ANCHOR_POLICIES, MultiAnchorPolicy } from './linkPolicy';
+import { DEFAULT_OVERRIDE_COLUMNS, DEFAULT_OVERRIDE_SETTINGS, OverrideSettings } from './overrides';
+import { DATE_FIELDS, DateField, DEFAULT_PERIOD_SETTINGS, parsePeriod, PeriodSettings } from './periods';
+import { DEFAULT_REGISTRATION_PACK_SETTINGS, RegistrationPackSettings } from './pack';
+import { DEFAULT_RATE_CARD_COLUMNS, RateCardColumns } from './rates';
+import { DEFAULT_WORKLOG_COLUMNS, DEFAULT_WORKLOG_SETTINGS, WorklogSettings } from './worklogs';
+
+export type SheetNames = {
+    results: string;
+    transformed: string;
+    summary: string;
+    activityCosts: string;
+    monthly: string;
+    quarterly: string;
+    periodBoundaries: string;
+    excluded: string;
+    capacity: string;
+    activityConflicts: string;
+    adjustments: string;
+    issues: string;
+};
+
+export type Config = {
+    hoursPerDay: number;
+    // Working days in a week, for durations given in weeks
+    daysPerWeek: number;
+    // Fields tickets' own hours are read from, most authoritative first
+    hoursSources: HoursSource[];
+    // Header in the export for each ticket field
+    columns: Record<ColumnId, string>;
+    // Rules for which tickets are activity anchors (MAP ideas)
+    anchors: AnchorRule[];
+    // How tickets linked to several MAP tickets are attributed
+    multiAnchorPolicy: MultiAnchorPolicy;
+    // Which of a ticket's explicit, linked and inherited R&DTI activities wins
+    activityPrecedence: ActivityOrigin[];
+    // Rules for which tickets' hours can be claimed
+    eligibility: EligibilitySettings;
+    // Jira Cloud REST API input
+    jira: JiraSettings;
+    // Per-person hourly rates used to cost contributor hours
+    rateCard: {
+        file?: string;
+        columns: RateCardColumns;
+    };
+    // How contributor hours are dated and which period is claimed
+    periods: PeriodSettings;
+    // Per-person worklogs that hours are attributed from when a ticket has them
+    worklogs: WorklogSettings;
+    // How contributions get their activity type, phase and role
+    classification: ClassificationSettings;
+    // Each person's paid time, for their R&D share
+    capacity: CapacitySettings;
+    // Analysts' corrections applied on top of the attributed hours
+    overrides: OverrideSettings;
+    // What goes into each activity's registration pack
+    registrationPack: RegistrationPackSettings;
+    // Names of the sheets in the output workbook
+    sheets: SheetNames;
+};
+
+export const DEFAULT_CONFIG: Config = {
+    hoursPerDay: 8,
+    daysPerWeek: 5,
+    hoursSources: DEFAULT_HOURS_SOURCES,
+    columns: defaultColumnHeaders(),
+    anchors: DEFAULT_ANCHOR_RULES,
+    multiAnchorPolicy: 'first-wins',
+    activityPrecedence: DEFAULT_ACTIVITY_PRECEDENCE,
+    eligibility: DEFAULT_ELIGIBILITY_SETTINGS,
+    jira: DEFAULT_JIRA_SETTINGS,
+    rateCard: {
+        columns: DEFAULT_RATE_CARD_COLUMNS,
+    },
+    periods: DEFAULT_PERIOD_SETTINGS,
+    worklogs: DEFAULT_WORKLOG_SETTINGS,
+    classification: DEFAULT_CLASSIFICATION_SETTINGS,
+    capacity: DEFAULT_CAPACITY_SETTINGS,
+    overrides: DEFAULT_OVERRIDE_SETTINGS,
+    registrationPack: DEFAULT_REGISTRATION_PACK_SETTINGS,
+    sheets: {
+        results: 'Results',
+        transformed: 'Transformed Data',
+        summary: 'Project Summary',
+        activityCosts: 'Activity Costs',
+        monthly: 'Monthly Breakdown',
+        quarterly: 'Quarterly Breakdown',
+        periodBoundaries: 'Period Boundaries',
+        excluded: 'Excluded Work',
+        capacity: 'R&D Time Ratio',
+        activityConflicts: 'Activity Conflicts',
+        adjustments: 'Adjustments',
+        issues: 'Issues',
+    },
+};
+
+// Config files picked up from the working directory when --config isn't given
+export const CONFIG_FILE_NAMES = ['rd-tracking.config.json', 'rd-tracking.config.yaml', 'rd-tracking.config.yml'];
+
+// Load the config file at configPath, or the first default config file found in cwd.
+// Settings missing from the file keep their defaults.
+export function loadConfig(configPath?: string, cwd: string = process.cwd()): Config {
+    let file = configPath ? path.resolve(cwd, configPath) : undefined;
+
+    if (!file) {
+        file = CONFIG_FILE_NAMES.map(name => path.join(cwd, name)).find(candidate => fs.existsSync(candidate));
+        if (!file) return cloneConfig(DEFAULT_CONFIG);
+    }
+
+    if (!fs.existsSync(file)) {
+        throw new ConfigError(`Config file not found: ${file}`);
+    }
+
+    let raw: unknown;
+    try {
+        const text = fs.readFileSync(file, 'utf8');
+        raw = /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+    } catch (error) {
+        throw new ConfigError(`Could not parse config file ${file}: ${(error as Error).message}`);
+    }
+
+    return resolveConfig(raw ?? {}, file);
+}
+
+// Merge raw config values over the defaults, rejecting unknown keys and wrong types
+export function resolveConfig(raw: unknown, source = 'config'): Config {
+    const config = cloneConfig(DEFAULT_CONFIG);
+    const settings = expectObject(raw, source);
+
+    for (const [key, value] of Object.entries(settings)) {
+        switch (key) {
+            case 'hoursPerDay':
+                if (typeof value !== 'number' || !(value > 0)) {
+                    throw new ConfigError(`${source}: hoursPerDay must be a positive number`);
+                }
+                config.hoursPerDay = value;
+                break;
+            case 'daysPerWeek':
+                if (typeof value !== 'number' || !(value > 0) || value > 7) {
+                    throw new ConfigError(`${source}: daysPerWeek must be a number between 0 and 7`);
+                }
+                config.daysPerWeek = value;
+                break;
+            case 'hoursSources':
+                config.hoursSources = expectHoursSources(value, `${source}: hoursSources`);
+                break;
+            case 'columns':
+                Object.assign(config.columns, expectStrings(value, COLUMN_IDS, `${source}: columns`));
+                break;
+            case 'anchors':
+                config.anchors = expectAnchorRules(value, `${source}: anchors`);
+                break;
+            case 'multiAnchorPolicy':
+                if (!MULTI_ANCHOR_POLICIES.includes(value as MultiAnchorPolicy)) {
+                    throw new ConfigError(`${source}: multiAnchorPolicy must be one of ${MULTI_ANCHOR_POLICIES.join(', ')}`);
+                }
+                config.multiAnchorPolicy = value as MultiAnchorPolicy;
+                break;
+            case 'activityPrecedence':
+                // Every origin, each once, most important first
+                if (!Array.isArray(value) || value.length !== ACTIVITY_ORIGINS.length
+                    || !ACTIVITY_ORIGINS.every(origin => value.includes(origin))) {
+                    throw new ConfigError(`${source}: activityPrecedence must list ${ACTIVITY_ORIGINS.join(', ')} once each, in order of precedence`);
+                }
+                config.activityPrecedence = value as ActivityOrigin[];
+                break;
+            case 'eligibility':
+                config.eligibility = expectEligibilitySettings(value, `${source}: eligibility`);
+                break;
+            case 'rateCard': {
+                const rateCard = expectObject(value, `${source}: rateCard`);
+                for (const [rateKey, rateValue] of Object.entries(rateCard)) {
+                    if (rateKey === 'file') {
+                        if (typeof rateValue !== 'string' || rateValue.trim() === '') {
+                            throw new ConfigError(`${source}: rateCard.file must be a non-empty string`);
+                        }
+                        config.rateCard.file = path.resolve(path.dirname(source), rateValue);
+                    } else if (rateKey === 'columns') {
+                        Object.assign(config.rateCard.columns, expectStrings(rateValue, Object.keys(DEFAULT_RATE_CARD_COLUMNS), `${source}: rateCard.columns`));
+                    } else {
+                        throw new ConfigError(`${source}: rateCard: unknown key '${rateKey}' (expected file, columns)`);
+                    }
+                }
+                break;
+            }
+            case 'jira':
+                config.jira = expectJiraSettings(value, `${source}: jira`);
+                break;
+            case 'periods':
+                config.periods = expectPeriodSettings(value, `${source}: periods`);
+                break;
+            case 'worklogs':
+                config.worklogs = expectWorklogSettings(value, `${source}: worklogs`, source);
+                break;
+            case 'classification':
+                config.classification = expectClassificationSettings(value, `${source}: classification`, source);
+                break;
+            case 'capacity':
+                config.capacity = expectCapacitySettings(value, `${source}: capacity`, source);
+                break;
+            case 'overrides':
+                config.overrides = expectOverrideSettings(value, `${source}: overrides`, source);
+                break;
+            case 'registrationPack':
+                config.registrationPack = expectRegistrationPackSettings(value, `${source}: registrationPack`);
+                break;
+            case 'sheets':
+                Object.assign(config.sheets, expectStrings(value, Object.keys(DEFAULT_CONFIG.sheets), `${source}: sheets`));
+                break;
+            default:
+                throw new ConfigError(`${source}: unknown setting '${key}'`);
+        }
+    }
+
+    return config;
+}
+
+function cloneConfig(config: Config): Config {
+    return JSON.parse(JSON.stringify(config));
+}
+
+function expectObject(value: unknown, label: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ConfigError(`${label} must be an object`);
+    }
+    return value as Record<string, unknown>;
+}
+
+function expectStrings(value: unknown, allowedKeys: string[], label: string): Record<string, string> {
+    const entries = expectObject(value, label);
+    for (const [key, entry] of Object.entries(entries)) {
+        if (!allowedKeys.includes(key)) {
+            throw new ConfigError(`${label}: unknown key '${key}' (expected one of ${allowedKeys.join(', ')})`);
+        }
+        if (typeof entry !== 'string' || entry.trim() === '') {
+            throw new ConfigError(`${label}.${key} must be a non-empty string`);
+        }
+    }
+    return entries as Record<string, string>;
+}
+
+function expectHoursSources(value: unknown, label: string): HoursSource[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new ConfigError(`${label} must be a non-empty list of { field, unit } entries`);
+    }
+    return value.map((entry, index) => {
+        const source = expectObject(entry, `${label}[${index}]`);
+        for (const key of Object.keys(source)) {
+            if (key !== 'field' && key !== 'unit') {
+                throw new ConfigError(`${label}[${index}]: unknown key '${key}' (expected field, unit)`);
+            }
+        }
+        if (typeof source.field !== 'string' || source.field.trim() === '') {
+            throw new ConfigError(`${label}[${index}].field must be a column id such as workHours, or an export header`);
+        }
+        if (source.unit !== undefined && !HOURS_UNITS.includes(source.unit as HoursUnit)) {
+            throw new ConfigError(`${label}[${index}].unit must be one of ${HOURS_UNITS.join(', ')}`);
+        }
+        return { field: source.field, unit: (source.unit as HoursUnit | undefined) ?? 'hours' };
+    });
+}
+
+function expectAnchorRules(value: unknown, label: string): AnchorRule[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new ConfigError(`${label} must be a non-empty list of rules`);
+    }
+
+    return value.map((entry, index) => {
+        const rule = expectRuleConditions(expectObject(entry, `${label}[${index}]`), `${label}[${index}]`);
+        if (Object.keys(rule).length === 0) {
+            throw new ConfigError(`${label}[${index}] needs at least one condition`);
+        }
+        return rule;
+    });
+}
+
+// Check the conditions of an anchor-style rule; `otherKeys` are the keys the caller
+// has already taken out of the rule, for the error message
+function expectRuleConditions(rule: Record<string, unknown>, label: string, otherKeys: string[] = []): AnchorRule {
+    for (const [key, condition] of Object.entries(rule)) {
+        if (!ANCHOR_RULE_KEYS.includes(key as keyof AnchorRule)) {
+            throw new ConfigError(`${label}: unknown key '${key}' (expected one of ${[...ANCHOR_RULE_KEYS, ...otherKeys].join(', ')})`);
+        }
+        const values = Array.isArray(condition) && key !== 'field' ? condition : [condition];
+        if (values.length === 0 || values.some(item => typeof item !== 'string' || item.trim() === '')) {
+            throw new ConfigError(`${label}.${key} must be a non-empty string${key === 'field' ? '' : ' or list of strings'}`);
+        }
+    }
+    if (rule.value !== undefined && rule.field === undefined) {
+        throw new ConfigError(`${label}: 'value' needs a 'field' to compare against`);
+    }
+    return rule as AnchorRule;
+}
+
+function expectEligibilitySettings(value: unknown, label: string): EligibilitySettings {
+    const settings: EligibilitySettings = { include: [], exclude: [] };
+
+    for (const [key, entry] of Object.entries(expectObject(value, label))) {
+        if (key !== 'include' && key !== 'exclude') {
+            throw new ConfigError(`${label}: unknown key '${key}' (expected include, exclude)`);
+        }
+        if (!Array.isArray(entry)) {
+            throw new ConfigError(`${label}.${key} must be a list of rules`);
+        }
+        settings[key] = entry.map((item, index) => {
+            const itemLabel = `${label}.${key}[${index}]`;
+            const { parent, reason, ...conditions } = expectObject(item, itemLabel);
+            const rule: EligibilityRule = expectRuleConditions(conditions, itemLabel, ['parent', 'reason']);
+            if (parent !== undefined) {
+                const parents = Array.isArray(parent) ? parent : [parent];
+                if (parents.length === 0 || parents.some(item => typeof item !== 'string' || item.trim() === '')) {
+                    throw new ConfigError(`${itemLabel}.parent must be a non-empty string or list of strings`);
+                }
+                rule.parent = parent as string | string[];
+            }
+            if (Object.keys(rule).length === 0) {
+                throw new ConfigError(`${itemLabel} needs at least one condition`);
+            }
+            if (reason !== undefined) {
+                if (typeof reason !== 'string') {
+                    throw new ConfigError(`${itemLabel}.reason must be a string`);
+                }
+                rule.reason = reason;
+            }
+            return rule;
+        });
+    }
+
+    return settings;
+}
+
+function expectPeriodSettings(value: unknown, label: string): PeriodSettings {
+    const settings = { ...DEFAULT_PERIOD_SETTINGS };
+
+    for (const [key, entry] of Object.entries(expectObject(value, label))) {
+        switch (key) {
+            case 'dateFields':
+                if (!Array.isArray(entry) || entry.length === 0 || entry.some(field => !DATE_FIELDS.includes(field))) {
+                    throw new ConfigError(`${label}.dateFields must be a non-empty list of ${DATE_FIELDS.join(', ')}`);
+                }
+                settings.dateFields = entry as DateField[];
+                break;
+            case 'boundaryRule':
+                if (entry !== 'attribution-date' && entry !== 'prorate') {
+                    throw new ConfigError(`${label}.boundaryRule must be 'attribution-date' or 'prorate'`);
+                }
+                settings.boundaryRule = entry;
+                break;
+            case 'period':
+                if (typeof entry !== 'string' || !parsePeriod(entry)) {
+                    throw new ConfigError(`${label}.period must look like FY2026, FY2026-Q1 or 2025-07-01..2025-12-31`);
+                }
+                settings.period = entry;
+                break;
+            default:
+                throw new ConfigError(`${label}: unknown key '${key}' (expected dateFields, boundaryRule, period)`);
+        }
+    }
+
+    return settings;
+}
+
+function expectJiraSettings(value: unknown, label: string): JiraSettings {
+    const settings: JiraSettings = { ...DEFAULT_JIRA_SETTINGS, fields: {} };
+
+    for (const [key, entry] of Object.entries(expectObject(value, label))) {
+        switch (key) {
+            case 'baseUrl':
+            case 'email':
+            case 'jql':
+            case 'cacheDir':
+                if (typeof entry !== 'string' || entry.trim() === '') {
+                    throw new ConfigError(`${label}.${key} must be a non-empty string`);
+                }
+                settings[key] = entry;
+                break;
+            case 'pageSize':
+            case 'followDepth':
+                if (typeof entry !== 'number' || !Number.isInteger(entry) || entry < 0 || (key === 'pageSize' && entry === 0)) {
+                    throw new ConfigError(`${label}.${key} must be a ${key === 'pageSize' ? 'positive' : 'non-negative'} whole number`);
+                }
+                settings[key] = entry;
+                break;
+            case 'fields': {
+                const fields = expectObject(entry, `${label}.fields`);
+                for (const [name, fieldId] of Object.entries(fields)) {
+                    if (typeof fieldId !== 'string' || fieldId.trim() === '') {
+                        throw new ConfigError(`${label}.fields.${name} must be a Jira field id such as customfield_10050`);
+                    }
+                }
+                settings.fields = fields as Record<string, string>;
+                break;
+            }
+            case 'apiToken':
+                throw new ConfigError(`${label}.apiToken is not read from config files; set JIRA_API_TOKEN instead`);
+            default:
+                throw new ConfigError(`${label}: unknown key '${key}' (expected baseUrl, email, jql, cacheDir, pageSize, followDepth, fields)`);
+        }
+    }
+
+    return settings;
+}
+
+function expectWorklogSettings(value: unknown, label: string, source: string): WorklogSettings {
+    const settings: WorklogSettings = { ...DEFAULT_WORKLOG_SETTINGS, columns: { ...DEFAULT_WORKLOG_COLUMNS } };
+
+    for (const [key, entry] of Object.entries(expectObject(value, label))) {
+        switch (key) {
+            case 'file':
+            case 'sheet':
+                if (typeof entry !== 'string' || entry.trim() === '') {
+                    throw new ConfigError(`${label}.${key} must be a non-empty string`);
+                }
+                settings[key] = key === 'file' ? path.resolve(path.dirname(source), entry) : entry;
+                break;
+            case 'timeSpentUnit':
+                if (!HOURS_UNITS.includes(entry as HoursUnit)) {
+                    throw new ConfigError(`${label}.timeSpentUnit must be one of ${HOURS_UNITS.join(', ')}`);
+                }
+                settings.timeSpentUnit = entry as HoursUnit;
+                break;
+            case 'columns':
+                Object.assign(settings.columns, expectStrings(entry, Object.keys(DEFAULT_WORKLOG_COLUMNS), `${label}.columns`));
+                break;
+            default:
+                throw new ConfigError(`${label}: unknown key '${key}' (expected file, sheet, timeSpentUnit, columns)`);
+        }
+    }
+
+    return settings;
+}
+
+function expectCapacitySettings(value: unknown, label: string, source: string): CapacitySettings {
+    const settings: CapacitySettings = { ...DEFAULT_CAPACITY_SETTINGS, columns: { ...DEFAULT_CAPACITY_COLUMNS } };
+
+    for (const [key, entry] of Object.entries(expectObject(value, label))) {
+        switch (key) {
+            case 'file':
+                if (typeof entry !== 'string' || entry.trim() === '') {
+                    throw new ConfigError(`${label}.file must be a non-empty string`);
+                }
+                settings.file = path.resolve(path.dirname(source), entry);
+                break;
+            case 'columns':
+                Object.assign(settings.columns, expectStrings(entry, Object.keys(DEFAULT_CAPACITY_COLUMNS), `${label}.columns`));
+                break;
+            case 'holidays':
+                if (!Array.isArray(entry) || entry.some(day => typeof day !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(day))) {
+                    throw new ConfigError(`${label}.holidays must be a list of dates like 2025-12-25`);
+                }
+                settings.holidays = entry;
+                break;
+            default:
+                throw new ConfigError(`${label}: unknown key '${key}' (expected file, columns, holidays)`);
+        }
+    }
+
+    return settings;
+}
+
+function expectOverrideSettings(value: unknown, label: string, source: string): OverrideSettings {
+    const settings: OverrideSettings = { ...DEFAULT_OVERRIDE_SETTINGS, columns: { ...DEFAULT_OVERRIDE_COLUMNS } };
+
+    for (const [key, entry] of Object.entries(expectObject(value, label))) {
+        switch (key) {
+            case 'file':
+                if (typeof entry !== 'string' || entry.trim() === '') {
+                    throw new ConfigError(`${label}.file must be a non-empty string`);
+                }
+                settings.file = path.resolve(path.dirname(source), entry);
+                break;
+            case 'columns':
+                Object.assign(settings.columns, expectStrings(entry, Object.keys(DEFAULT_OVERRIDE_COLUMNS), `${label}.columns`));
+                break;
+            default:
+                throw new ConfigError(`${label}: unknown key '${key}' (expected file, columns)`);
+        }
+    }
+
+    return settings;
+}
+
+function expectRegistrationPackSettings(value: unknown, label: string): RegistrationPackSettings {
+    const settings: RegistrationPackSettings = cloneConfig(DEFAULT_CONFIG).registrationPack;
+
+    for (const [key, entry] of Object.entries(expectObject(value, label))) {
+        switch (key) {
+            case 'fields':
+                Object.assign(settings.fields, expectStrings(entry, Object.keys(DEFAULT_REGISTRATION_PACK_SETTINGS.fields), `${label}.fields`));
+                break;
+            case 'ticketUrl':
+                if (typeof entry !== 'string' || !entry.includes('{key}')) {
+                    throw new ConfigError(`${label}.ticketUrl must be a URL containing {key}, e.g. https://acme.atlassian.net/browse/{key}`);
+                }
+                settings.ticketUrl = entry;
+                break;
+            default:
+                throw new ConfigError(`${label}: unknown key '${key}' (expected fields, ticketUrl)`);
+        }
+    }
+
+    return settings;
+}
+
+function expectClassificationSettings(value: unknown, label: string, source: string): ClassificationSettings {
+    const settings: ClassificationSettings = cloneConfig(DEFAULT_CONFIG).classification;
+
+    for (const [key, entry] of Object.entries(expectObject(value, label))) {
+        switch (key) {
+            case 'activityTypes': {
+                const activityTypes = expectObject(entry, `${label}.activityTypes`);
+                for (const [activity, activityType] of Object.entries(activityTypes)) {
+                    if (!ACTIVITY_TYPES.includes(activityType as ActivityType)) {
+                        throw new ConfigError(`${label}.activityTypes['${activity}'] must be one of ${ACTIVITY_TYPES.join(', ')}`);
+                    }
+                }
+                settings.activityTypes = activityTypes as Record<string, ActivityType>;
+                break;
+            }
+            case 'phases':
+                if (!Array.isArray(entry) || entry.length === 0) {
+                    throw new ConfigError(`${label}.phases must be a non-empty list of rules`);
+                }
+                settings.phases = entry.map((item, index) => {
+                    const { phase, ...conditions } = expectObject(item, `${label}.phases[${index}]`);
+                    if (typeof phase !== 'string' || phase.trim() === '') {
+                        throw new ConfigError(`${label}.phases[${index}].phase must be a non-empty string`);
+                    }
+                    return { ...expectRuleConditions(conditions, `${label}.phases[${index}]`, ['phase']), phase } as PhaseRule;
+                });
+                break;
+            case 'roster':
+                for (const [rosterKey, rosterValue] of Object.entries(expectObject(entry, `${label}.roster`))) {
+                    if (rosterKey === 'file') {
+                        if (typeof rosterValue !== 'string' || rosterValue.trim() === '') {
+                            throw new ConfigError(`${label}.roster.file must be a non-empty string`);
+                        }
+                        settings.roster.file = path.resolve(path.dirname(source), rosterValue);
+                    } else if (rosterKey === 'columns') {
+                        Object.assign(settings.roster.columns, expectStrings(rosterValue, Object.keys(DEFAULT_ROSTER_COLUMNS), `${label}.roster.columns`));
+                    } else {
+                        throw new ConfigError(`${label}.roster: unknown key '${rosterKey}' (expected file, columns)`);
+                    }
+                }
+                break;
+            default:
+                throw new ConfigError(`${label}: unknown key '${key}' (expected activityTypes, phases, roster)`);
+        }
+    }
+
+    return settings;
+}
@@ -0,0 +1,133 @@
+import { roundCents } from './rates';
+import { Snapshot, SnapshotEntry } from './snapshot';
+
+// A work item whose hours for one person under one activity changed between runs
+export type HoursChange = {
+    workItem: string;
+    before: number;
+    after: number;
+};
+
+export type ActivityChange = {
+    ticket: string;
+    before?: string;
+    after?: string;
+};
+
+export type WipChange = {
+    mapTicket: string;
+    before: number;
+    after: number;
+};
+
+// What changed between two runs
+export type SnapshotDiff = {
+    totalBefore: number;
+    totalAfter: number;
+    // Hours changes by "activity | person", each sorted by work item; an added work
+    // item has 0 hours before and a removed one 0 hours after
+    hours: Map<string, HoursChange[]>;
+    activities: ActivityChange[];
+    sumOfWipHours: WipChange[];
+};
+
+export function diffSnapshots(before: Snapshot, after: Snapshot): SnapshotDiff {
+    const byKey = (entries: SnapshotEntry[]) => new Map(entries.map(entry => [`${entry.activity}|${entry.who}|${entry.workItem}`, entry]));
+    const beforeEntries = byKey(before.attribution);
+    const afterEntries = byKey(after.attribution);
+
+    const hours = new Map<string, HoursChange[]>();
+    for (const key of new Set([...beforeEntries.keys(), ...afterEntries.keys()])) {
+        const beforeHours = beforeEntries.get(key)?.hours ?? 0;
+        const afterHours = afterEntries.get(key)?.hours ?? 0;
+        if (roundCents(beforeHours) === roundCents(afterHours)) continue;
+
+        const entry = (beforeEntries.get(key) ?? afterEntries.get(key))!;
+        const group = `${entry.activity} | ${entry.who}`;
+        hours.set(group, [...(hours.get(group) ?? []), { workItem: entry.workItem, before: beforeHours, after: afterHours }]);
+    }
+    const sortedHours = new Map(Array.from(hours).sort(([a], [b]) => a.localeCompare(b)));
+    sortedHours.forEach(changes => changes.sort((a, b) => compareKeys(a.workItem, b.workItem)));
+
+    const activities: ActivityChange[] = [];
+    const tickets = Array.from(new Set([...Object.keys(before.activities), ...Object.keys(after.activities)])).sort(compareKeys);
+    for (const ticket of tickets) {
+        if (before.activities[ticket] !== after.activities[ticket]) {
+            activities.push({ ticket, before: before.activities[ticket], after: after.activities[ticket] });
+        }
+    }
+
+    const sumOfWipHours: WipChange[] = [];
+    const mapTickets = Array.from(new Set([...Object.keys(before.sumOfWipHours), ...Object.keys(after.sumOfWipHours)])).sort(compareKeys);
+    for (const mapTicket of mapTickets) {
+        const beforeHours = before.sumOfWipHours[mapTicket] ?? 0;
+        const afterHours = after.sumOfWipHours[mapTicket] ?? 0;
+        if (roundCents(beforeHours) !== roundCents(afterHours)) {
+            sumOfWipHours.push({ mapTicket, before: beforeHours, after: afterHours });
+        }
+    }
+
+    const total = (snapshot: Snapshot) => snapshot.attribution.reduce((sum, entry) => sum + entry.hours, 0);
+    return { totalBefore: total(before), totalAfter: total(after), hours: sortedHours, activities, sumOfWipHours };
+}
+
+// The diff as lines of text
+export function formatDiff(diff: SnapshotDiff): string[] {
+    const lines: string[] = [];
+    lines.push(`Attributed hours: ${formatChange(diff.totalBefore, diff.totalAfter)}`);
+
+    if (diff.hours.size === 0 && diff.activities.length === 0 && diff.sumOfWipHours.length === 0) {
+        lines.push('', 'No differences');
+        return lines;
+    }
+
+    if (diff.hours.size > 0) {
+        lines.push('', 'Hours by activity and person:');
+        for (const [group, changes] of diff.hours) {
+            const net = changes.reduce((sum, change) => sum + change.after - change.before, 0);
+            lines.push(`  ${group} (${formatNet(net)})`);
+            for (const change of changes) {
+                if (change.before === 0) {
+                    lines.push(`    added    ${change.workItem} ${formatHours(change.after)}`);
+                } else if (change.after === 0) {
+                    lines.push(`    removed  ${change.workItem} ${formatHours(change.before)}`);
+                } else {
+                    lines.push(`    changed  ${change.workItem} ${formatChange(change.before, change.after)}`);
+                }
+            }
+        }
+    }
+
+    if (diff.activities.length > 0) {
+        lines.push('', 'R&DTI activity changes:');
+        for (const change of diff.activities) {
+            lines.push(`  ${change.ticket}: ${change.before ?? 'none'} → ${change.after ?? 'none'}`);
+        }
+    }
+
+    if (diff.sumOfWipHours.length > 0) {
+        lines.push('', 'Sum of WIP hours per MAP ticket:');
+        for (const change of diff.sumOfWipHours) {
+            lines.push(`  ${change.mapTicket}: ${formatChange(change.before, change.after)}`);
+        }
+    }
+
+    return lines;
+}
+
+function formatChange(before: number, after: number): string {
+    return `${formatHours(before)} → ${formatHours(after)} (${formatNet(after - before)})`;
+}
+
+function formatNet(hours: number): string {
+    return `${hours >= 0 ? '+' : '−'}${formatHours(Math.abs(hours))}`;
+}
+
+function formatHours(hours: number): string {
+    return `${roundCents(hours)}h`;
+}
+
+// DEV-2 before DEV-10
+function compareKeys(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { numeric: true });
+}
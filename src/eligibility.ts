@@ -0,0 +1,86 @@
+import { AnchorRule, isActivityAnchor, matchesAnchorRule } from './anchors';
+import { Config } from './config';
+import { TicketGraph } from './graph';
+import { getParentKey } from './tickets';
+import { Ticket } from './types';
+
+// A rule for which tickets can be claimed. The conditions work the same way as in
+// anchor rules, plus `parent`, which matches a ticket when any ticket up its Parent
+// chain has one of the given keys.
+export type EligibilityRule = AnchorRule & {
+    parent?: string | string[];
+    // Why the rule exists, shown in the 'Excluded Work' sheet
+    reason?: string;
+};
+
+// With `include` rules, only tickets matching one of them can be claimed; tickets
+// matching an `exclude` rule are never claimed. Activity anchors only need to pass
+// the `exclude` rules, so include rules can describe the work alone.
+export type EligibilitySettings = {
+    include: EligibilityRule[];
+    exclude: EligibilityRule[];
+};
+
+export const DEFAULT_ELIGIBILITY_SETTINGS: EligibilitySettings = {
+    include: [],
+    exclude: [],
+};
+
+// Why a ticket was left out of the claim
+export type Exclusion = {
+    rule: string;
+    reason: string;
+};
+
+// Find the tickets left out of the claim, by key
+export function findExclusions(rows: Ticket[], graph: TicketGraph, config: Config): Map<string, Exclusion> {
+    const settings = config.eligibility;
+    const exclusions = new Map<string, Exclusion>();
+
+    for (const ticket of rows) {
+        const ancestors = getAncestorKeys(graph, ticket);
+        const matches = (rule: EligibilityRule) => matchesEligibilityRule(ticket, ancestors, rule, config);
+
+        if (settings.include.length > 0 && !isActivityAnchor(ticket, config) && !settings.include.some(matches)) {
+            exclusions.set(ticket['Work item key'], { rule: 'No include rule matches', reason: '' });
+            continue;
+        }
+
+        const index = settings.exclude.findIndex(matches);
+        if (index >= 0) {
+            const rule = settings.exclude[index];
+            exclusions.set(ticket['Work item key'], { rule: `exclude[${index}]: ${describeRule(rule)}`, reason: rule.reason ?? '' });
+        }
+    }
+
+    return exclusions;
+}
+
+// A rule's conditions as "workType=Bug, label=production"
+export function describeRule(rule: EligibilityRule): string {
+    return Object.entries(rule)
+        .filter(([key]) => key !== 'reason')
+        .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('|') : value}`)
+        .join(', ') || 'any ticket';
+}
+
+function matchesEligibilityRule(ticket: Ticket, ancestors: string[], rule: EligibilityRule, config: Config): boolean {
+    const { parent, reason, ...conditions } = rule;
+    if (parent !== undefined) {
+        const keys = (Array.isArray(parent) ? parent : [parent]).map(key => key.trim().toUpperCase());
+        if (!ancestors.some(ancestor => keys.includes(ancestor.toUpperCase()))) return false;
+    }
+    return matchesAnchorRule(ticket, conditions, config);
+}
+
+// Keys up the Parent chain, nearest first
+function getAncestorKeys(graph: TicketGraph, ticket: Ticket): string[] {
+    const ancestors: string[] = [];
+    let parentKey = getParentKey(ticket);
+    while (parentKey && !ancestors.includes(parentKey)) {
+        ancestors.push(parentKey);
+        const parent = graph.tickets.get(parentKey);
+        parentKey = parent ? getParentKey(parent) : undefined;
+    }
+    return ancestors;
+}
@@ -0,0 +1,27 @@
+// Errors that should end the run with a clear message instead of a stack trace.
+// The CLI prints `message` and exits with `exitCode`.
+export class RdTrackingError extends Error {
+    exitCode: number;
+
+    constructor(message: string, exitCode = 1) {
+        super(message);
+        this.name = new.target.name;
+        this.exitCode = exitCode;
+    }
+}
+
+// Bad command-line arguments
+export class UsageError extends RdTrackingError {
+    constructor(message: string) {
+        super(message, 2);
+    }
+}
+
+// Config file that can't be read or has invalid settings
+export class ConfigError extends RdTrackingError {}
+
+// Input file or sheet that can't be read
+export class InputError extends RdTrackingError {}
+
+// Data-quality errors found by the validation pass in --strict mode
+export class ValidationError extends RdTrackingError {}
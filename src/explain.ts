@@ -0,0 +1,223 @@
+import { InputError } from './errors';
+import { Analysis } from './process';
+import { roundCents } from './rates';
+import { getParentKey } from './tickets';
+import { Contributor, Ticket } from './types';
+
+// Where a ticket's R&DTI Activity came from, when it wasn't in the export
+export type ActivitySource = {
+    from: 'link' | 'ancestor';
+    // MAP tickets that supplied the activity; none when the ancestor had it set in the export
+    anchors: string[];
+    // The ancestor the activity was inherited from, for activities inherited down the hierarchy
+    via?: string;
+    // How the hours are split when they're claimed under several activities, e.g.
+    // "Search ranking (50%) / Recommendations (50%)"; the ticket's activity is left empty
+    split?: string;
+};
+
+// Whether a MAP ticket's linked item was counted, and why not when it wasn't
+export type LinkedItemDecision = {
+    item: string;
+    counted: boolean;
+    share: number;
+    reason: string;
+};
+
+// How activities and hours were derived during a run
+export type Derivation = {
+    activitySources: Map<string, ActivitySource>;
+    // Each MAP ticket's linked items, in link order
+    linkedItems: Map<string, LinkedItemDecision[]>;
+    // Whether a ticket's own or its children's hours were attributed
+    hourChoices: Map<string, string>;
+    // How each ticket's Sum of WIP hours contribution was rolled up
+    wipRollups: Map<string, string>;
+    // Every contribution before it was dated and filtered by the claim period
+    traced: Contributor[];
+};
+
+// A contribution's derivation on one line, e.g.
+// "MAP-1 → DEV-1 children 13h > own 0h → DEV-2 own 10h (mob of 2)"
+export function formatProvenance(contributor: Contributor): string {
+    return (contributor.trace ?? [])
+        .map(step => (step.note ? `${step.ticket} ${step.note}` : step.ticket))
+        .join(' → ');
+}
+
+// The full derivation of a ticket's activity and hours, as lines of text
+export function explainTicket(analysis: Analysis, key: string): string[] {
+    const { graph, derivation } = analysis;
+    const ticket = graph.tickets.get(key);
+    if (!ticket) {
+        throw new InputError(`Ticket ${key} is not in the export`);
+    }
+
+    const lines: string[] = [];
+    const summary = ticket['Summary'] ? ` ${ticket['Summary']}` : '';
+    const workType = ticket['Work type'] ? ` (${ticket['Work type']})` : '';
+    lines.push(`${key}${summary}${workType}`);
+
+    const exclusion = analysis.excluded.find(item => item.ticket['Work item key'] === key);
+    if (exclusion) {
+        lines.push(`Excluded: ${exclusion.rule}${exclusion.reason ? ` (${exclusion.reason})` : ''}; its own hours are not claimed`);
+    }
+
+    // Activity
+    lines.push('', `R&DTI Activity: ${ticket['R&DTI Activity'] || 'none'}`);
+    const source = derivation.activitySources.get(key);
+    if (derivation.linkedItems.has(key)) {
+        lines.push('  Set on this MAP ticket in the export');
+    } else if (source?.from === 'link') {
+        lines.push(`  From linked MAP ticket(s) ${source.anchors.join(', ')}`);
+    } else if (source?.from === 'ancestor') {
+        lines.push(`  ${describeInheritance(source)}`);
+    } else if (ticket['R&DTI Activity']) {
+        lines.push('  Set in the export');
+    } else {
+        lines.push('  Not set in the export, and no linked MAP ticket supplies one, on this ticket or its parents');
+    }
+    if (source?.split) lines.push(`  Hours split between ${source.split}`);
+    const conflict = analysis.activityConflicts.find(item => item.ticket === key);
+    if (conflict) {
+        lines.push(`  Conflicts with '${conflict.inherited}' inherited from ${conflict.inheritedFrom}; '${conflict.used}' was used`);
+    }
+
+    // Hours logged on the ticket itself
+    const own = analysis.hours.get(ticket);
+    const worklogHours = analysis.worklogHours.get(key);
+    lines.push('', worklogHours !== undefined
+        ? `Hours: ${formatHours(worklogHours)} from worklogs`
+        : own?.source ? `Hours: ${formatHours(own.hours)} from ${own.source} ('${own.value}')` : 'Hours: none');
+    const people = ticket['Mob'] ? `mob: ${ticket['Mob']}` : ticket['Assignee'] ? `assignee: ${ticket['Assignee']}` : 'no assignee or mob';
+    lines.push(`  People: ${people}`);
+    const rollup = derivation.wipRollups.get(key);
+    if (rollup) lines.push(`  WIP roll-up: ${rollup}`);
+
+    // A MAP ticket's linked items
+    const decisions = derivation.linkedItems.get(key);
+    if (decisions) {
+        lines.push('', `Sum of WIP hours: ${roundCents(ticket['Sum of WIP hours'] ?? 0)}`, 'Linked items:');
+        if (decisions.length === 0) lines.push('  none');
+        for (const decision of decisions) {
+            const share = decision.counted && decision.share < 1 ? ` at ${Math.round(decision.share * 100)}%` : '';
+            lines.push(`  ${decision.counted ? 'counted' : 'skipped'} ${decision.item}${share}: ${decision.reason}`);
+            const itemRollup = derivation.wipRollups.get(decision.item);
+            if (decision.counted && itemRollup) lines.push(`    WIP roll-up: ${itemRollup}`);
+        }
+    }
+
+    // Where this ticket is linked from but wasn't counted
+    for (const [mapKey, mapDecisions] of derivation.linkedItems) {
+        for (const decision of mapDecisions) {
+            if (decision.item === key && !decision.counted) {
+                lines.push('', `Skipped by ${mapKey}: ${decision.reason}`);
+            }
+        }
+    }
+
+    // Every contribution whose derivation passes through this ticket
+    const through = (contributor: Contributor) => (contributor.trace ?? []).some(step => step.ticket === key);
+    const traced = derivation.traced.filter(through);
+
+    lines.push('', 'Derivation:');
+    if (traced.length === 0) {
+        lines.push(`  ${whyNotAttributed(analysis, ticket)}`);
+    }
+    const byPath = new Map<string, Contributor[]>();
+    for (const contributor of traced) {
+        const path = formatProvenance(contributor);
+        byPath.set(path, [...(byPath.get(path) ?? []), contributor]);
+    }
+    for (const [path, contributors] of byPath) {
+        lines.push(`  ${path}`);
+        lines.push(`    ${splitByPerson(contributors).map(([who, hours]) => `${who} ${formatHours(hours)}`).join(', ')}`);
+    }
+
+    if (traced.length > 0) {
+        lines.push('', 'Per-person split:');
+        const byActivity = new Map<string, Contributor[]>();
+        for (const contributor of traced) {
+            byActivity.set(contributor.project, [...(byActivity.get(contributor.project) ?? []), contributor]);
+        }
+        for (const [activity, contributors] of byActivity) {
+            for (const [who, hours] of splitByPerson(contributors)) {
+                lines.push(`  ${activity} | ${who} | ${formatHours(hours)}`);
+            }
+        }
+        const total = traced.reduce((sum, contributor) => sum + contributor.hoursCost, 0);
+        lines.push(`  Total: ${formatHours(total)}`);
+
+        if (analysis.period) {
+            const claimed = analysis.attributed.filter(through).reduce((sum, contributor) => sum + contributor.hoursCost, 0);
+            lines.push(`  Claimed in ${analysis.period.label}: ${formatHours(claimed)}`);
+        }
+    }
+
+    // Analyst overrides apply on top of the derivation above
+    const adjustments = (analysis.adjustments ?? []).filter(adjustment => adjustment.workItem === key);
+    if (adjustments.length > 0) {
+        lines.push('', 'Adjustments:');
+        for (const adjustment of adjustments) {
+            const who = adjustment.who ? ` for ${adjustment.who}` : '';
+            const change = adjustment.before ? `${adjustment.before} → ${adjustment.after}` : adjustment.after;
+            lines.push(`  ${adjustment.change}${who}: ${change} (${adjustment.status}; ${adjustment.author}: ${adjustment.reason})`);
+        }
+    }
+
+    const issues = analysis.issues.filter(issue => issue.ticket === key);
+    if (issues.length > 0) {
+        lines.push('', 'Issues:');
+        for (const issue of issues) {
+            lines.push(`  ${issue.severity}: ${issue.check}: ${issue.message}`);
+        }
+    }
+
+    return lines;
+}
+
+// Why none of a ticket's hours were attributed
+function whyNotAttributed(analysis: Analysis, ticket: Ticket): string {
+    const { graph, derivation } = analysis;
+
+    if (derivation.linkedItems.has(ticket['Work item key'])) {
+        return 'No linked item had hours to attribute';
+    }
+    if (!ticket['R&DTI Activity'] && !derivation.activitySources.get(ticket['Work item key'])?.split) {
+        return 'No R&DTI activity, so its hours are not claimed';
+    }
+
+    // An ancestor that used its own hours covers this ticket's hours
+    let parent = graph.tickets.get(getParentKey(ticket) ?? '');
+    const seen = new Set<string>();
+    while (parent && !seen.has(parent['Work item key'])) {
+        seen.add(parent['Work item key']);
+        const choice = derivation.hourChoices.get(parent['Work item key']);
+        if (choice && !choice.startsWith('children')) {
+            return `Not counted separately: ancestor ${parent['Work item key']} used its own hours (${choice})`;
+        }
+        parent = graph.tickets.get(getParentKey(parent) ?? '');
+    }
+
+    return 'No hours were attributed from this ticket';
+}
+
+// Where an inherited activity came from, e.g. "Inherited from DEV-1, which is linked to MAP ticket(s) MAP-1"
+export function describeInheritance(source: ActivitySource): string {
+    return source.anchors.length > 0
+        ? `Inherited from ${source.via}, which is linked to MAP ticket(s) ${source.anchors.join(', ')}`
+        : `Inherited from ${source.via}, where it's set in the export`;
+}
+
+// Hours per person, largest first
+function splitByPerson(contributors: Contributor[]): [string, number][] {
+    const byPerson = new Map<string, number>();
+    for (const contributor of contributors) {
+        byPerson.set(contributor.who, (byPerson.get(contributor.who) ?? 0) + contributor.hoursCost);
+    }
+    return Array.from(byPerson).sort(([whoA, a], [whoB, b]) => b - a || whoA.localeCompare(whoB));
+}
+
+function formatHours(hours: number): string {
+    return `${roundCents(hours)}h`;
+}
@@ -0,0 +1,119 @@
+import { getParentKey, parseLinkedWorkItems } from './tickets';
+import { Ticket } from './types';
+import { Issue } from './validation';
+
+// Indexes over the tickets of one run, built once so the hierarchy and links can be
+// walked without scanning every row
+export type TicketGraph = {
+    // Tickets by key; with duplicate keys the last row wins
+    tickets: Map<string, Ticket>;
+    // Children by parent key, in row order
+    children: Map<string, Ticket[]>;
+    // Keys a ticket links to, in link order
+    links: Map<string, string[]>;
+    // Tickets linking to each key, in row order
+    linkedFrom: Map<string, Ticket[]>;
+    // Descendant keys by ticket key, filled in as they're asked for
+    descendants: Map<string, Set<string>>;
+};
+
+// Index the tickets. Parent cycles must already be broken (see breakParentCycles).
+export function buildTicketGraph(rows: Ticket[]): TicketGraph {
+    const graph: TicketGraph = {
+        tickets: new Map(),
+        children: new Map(),
+        links: new Map(),
+        linkedFrom: new Map(),
+        descendants: new Map(),
+    };
+
+    for (const ticket of rows) {
+        graph.tickets.set(ticket['Work item key'], ticket);
+    }
+
+    for (const ticket of rows) {
+        const key = ticket['Work item key'];
+
+        const parentKey = getParentKey(ticket);
+        if (parentKey && parentKey !== key) {
+            const children = graph.children.get(parentKey);
+            if (children) children.push(ticket);
+            else graph.children.set(parentKey, [ticket]);
+        }
+
+        const links = parseLinkedWorkItems(ticket['Linked work items'] || '');
+        graph.links.set(key, links);
+        for (const linkedKey of links) {
+            const linkedFrom = graph.linkedFrom.get(linkedKey);
+            if (linkedFrom) linkedFrom.push(ticket);
+            else graph.linkedFrom.set(linkedKey, [ticket]);
+        }
+    }
+
+    return graph;
+}
+
+export function getChildren(graph: TicketGraph, ticket: Ticket): Ticket[] {
+    return graph.children.get(ticket['Work item key']) ?? [];
+}
+
+// Keys of every ticket below this one, depth first
+export function getDescendantKeys(graph: TicketGraph, ticket: Ticket): Set<string> {
+    const key = ticket['Work item key'];
+    const cached = graph.descendants.get(key);
+    if (cached) return cached;
+
+    // Mark the ticket as in progress so a cycle that slipped through ends the walk
+    const descendants = new Set<string>();
+    graph.descendants.set(key, descendants);
+    for (const child of getChildren(graph, ticket)) {
+        if (child['Work item key'] === key) continue;
+        descendants.add(child['Work item key']);
+        getDescendantKeys(graph, child).forEach(descendant => descendants.add(descendant));
+    }
+    descendants.delete(key);
+    return descendants;
+}
+
+export function getDescendants(graph: TicketGraph, ticket: Ticket): Ticket[] {
+    return Array.from(getDescendantKeys(graph, ticket), key => graph.tickets.get(key)!);
+}
+
+// Find loops in the Parent chains and break each one by ignoring the Parent of the
+// ticket that closes it, so the hierarchy can be walked without recursing forever
+export function breakParentCycles(rows: Ticket[]): Issue[] {
+    const issues: Issue[] = [];
+    const ticketMap = new Map(rows.map(ticket => [ticket['Work item key'], ticket]));
+    const finished = new Set<string>();
+
+    for (const ticket of rows) {
+        const path: Ticket[] = [];
+        const onPath = new Set<string>();
+        let current: Ticket | undefined = ticket;
+
+        while (current && !finished.has(current['Work item key'])) {
+            const key = current['Work item key'];
+            if (onPath.has(key)) {
+                // `current` closes the loop: ignore the Parent that points back into it
+                const cycle = path.slice(path.findIndex(item => item['Work item key'] === key)).map(item => item['Work item key']);
+                const closing = path[path.length - 1];
+                issues.push({
+                    severity: 'error',
+                    ticket: closing['Work item key'],
+                    check: 'Parent cycle',
+                    message: `Parent chain loops (${[...cycle, key].join(' → ')}); the Parent '${closing['Parent']}' was ignored`,
+                });
+                closing['Parent'] = '';
+                break;
+            }
+            path.push(current);
+            onPath.add(key);
+            const parentKey = getParentKey(current);
+            current = parentKey ? ticketMap.get(parentKey) : undefined;
+        }
+
+        path.forEach(item => finished.add(item['Work item key']));
+    }
+
+    return issues;
+}
@@ -0,0 +1,118 @@
+import { columnHeader, ticketField } from './columns';
+import { Config } from './config';
+import { Ticket } from './types';
+import { Issue } from './validation';
+
+// Length of a working day and week, for durations given in days or weeks
+export type WorkingTime = {
+    hoursPerDay: number;
+    daysPerWeek: number;
+};
+
+// Unit of a plain number in an hours field; Jira exports time tracking fields in seconds.
+// Text such as "1w 2d 3h 30m" is always read as a duration.
+export type HoursUnit = 'hours' | 'minutes' | 'seconds' | 'days';
+
+export const HOURS_UNITS: HoursUnit[] = ['hours', 'minutes', 'seconds', 'days'];
+
+// A field tickets' hours can be read from: a column id such as 'workHours', or an
+// export header such as 'Time Spent'
+export type HoursSource = {
+    field: string;
+    unit: HoursUnit;
+};
+
+export const DEFAULT_HOURS_SOURCES: HoursSource[] = [{ field: 'workHours', unit: 'hours' }];
+
+// A ticket's own hours, with the header of the field they were read from and its value;
+// no source when none of the hours sources has a value
+export type TicketHours = {
+    hours: number;
+    source?: string;
+    value?: string;
+};
+
+// Parse a time duration like "1w 2d", "1d 2h 30m", "5h 15m", "30m" or "2 hours" to hours.
+// Returns undefined when any part of the text isn't understood.
+export function parseDuration(timeStr: string, time: WorkingTime): number | undefined {
+    if (!timeStr || timeStr.trim() === '') return 0;
+
+    let totalHours = 0;
+    const timeRegex = /(\d+(?:\.\d+)?)\s*(w|weeks?|wks?|d|days?|h|hours?|hrs?|m|minutes?|mins?)(?![a-z])/gi;
+    let match;
+
+    while ((match = timeRegex.exec(timeStr)) !== null) {
+        const value = parseFloat(match[1]);
+        const unit = match[2][0].toLowerCase();
+
+        switch (unit) {
+            case 'w': totalHours += value * time.daysPerWeek * time.hoursPerDay; break;
+            case 'd': totalHours += value * time.hoursPerDay; break;
+            case 'h': totalHours += value; break;
+            case 'm': totalHours += value / 60; break;
+        }
+    }
+
+    // Anything left besides separators is a part of the value that wasn't understood
+    const leftover = timeStr.replace(timeRegex, '').replace(/[\s,]/g, '');
+    return leftover === '' ? totalHours : undefined;
+}
+
+// Read a value as hours: a plain number in `unit`, or a duration. Returns undefined
+// when it's neither.
+export function parseHours(value: unknown, unit: HoursUnit, time: WorkingTime): number | undefined {
+    if (value === null || value === undefined) return 0;
+
+    const text = String(value).trim();
+    const number = typeof value === 'number' ? value : /^\d+(\.\d+)?$/.test(text) ? parseFloat(text) : undefined;
+    if (number === undefined) return parseDuration(text, time);
+
+    switch (unit) {
+        case 'hours': return number;
+        case 'minutes': return number / 60;
+        case 'seconds': return number / 3600;
+        case 'days': return number * time.hoursPerDay;
+    }
+}
+
+// Read each ticket's own hours from the first of the configured hours sources that has
+// a value. A value that can't be read is reported and the next source is tried.
+export function readTicketHours(rows: Ticket[], config: Config): { hours: Map<Ticket, TicketHours>; issues: Issue[] } {
+    const sources = config.hoursSources.map(source => ({
+        ...source,
+        field: ticketField(source.field, config),
+        header: columnHeader(source.field, config),
+    }));
+    const hours = new Map<Ticket, TicketHours>();
+    const issues: Issue[] = [];
+
+    for (const ticket of rows) {
+        const unreadable: string[] = [];
+        let found: TicketHours | undefined;
+        for (const source of sources) {
+            const value = ticket[source.field];
+            if (value === undefined || value === null || String(value).trim() === '') continue;
+
+            const parsed = parseHours(value, source.unit, config);
+            if (parsed === undefined) {
+                unreadable.push(`${source.header} '${value}'`);
+                continue;
+            }
+            found = { hours: parsed, source: source.header, value: String(value) };
+            break;
+        }
+
+        if (unreadable.length > 0) {
+            issues.push({
+                severity: 'error',
+                ticket: ticket['Work item key'],
+                check: 'Unparseable hours',
+                message: `${unreadable.join(' and ')} could not be read as hours; ` +
+                    (found ? `hours were taken from ${found.source} instead` : 'no hours were counted for this ticket'),
+            });
+        }
+        hours.set(ticket, found ?? { hours: 0 });
+    }
+
+    return { hours, issues };
+}
@@ -0,0 +1,107 @@
+import { TicketGraph } from './graph';
+import { getParentKey } from './tickets';
+import { Ticket } from './types';
+
+// Where a ticket's R&DTI Activity can come from:
+// - 'explicit': set on the ticket in the export
+// - 'linked': from the MAP tickets it's linked to
+// - 'inherited': from its nearest ancestor with an activity, down the Parent hierarchy
+export type ActivityOrigin = 'explicit' | 'linked' | 'inherited';
+
+export const ACTIVITY_ORIGINS: ActivityOrigin[] = ['explicit', 'linked', 'inherited'];
+
+export const DEFAULT_ACTIVITY_PRECEDENCE: ActivityOrigin[] = ['explicit', 'linked', 'inherited'];
+
+export type ResolvedActivity = {
+    activity: string;
+    origin: ActivityOrigin;
+    // MAP tickets that supplied the activity, directly or through the ancestor it came from
+    anchors: string[];
+    // The ancestor whose own activity was inherited, for inherited activities
+    via?: string;
+};
+
+// A ticket whose activity set in the export differs from the one its ancestors pass down
+export type ActivityConflict = {
+    ticket: string;
+    explicit: string;
+    inherited: string;
+    // The ancestor the inherited activity was set on or linked to
+    inheritedFrom: string;
+    // The activity the ticket ended up with under the precedence order
+    used: string;
+};
+
+// Work out every ticket's R&DTI Activity, taking the first of its explicit, linked and
+// inherited activities in `precedence` order. Anchors keep the activity set on them and
+// don't pass it down the hierarchy. `linkedActivity` is only asked for tickets that get
+// as far as the linked origin.
+export function resolveActivities(
+    rows: Ticket[],
+    graph: TicketGraph,
+    precedence: ActivityOrigin[],
+    isAnchor: (ticket: Ticket) => boolean,
+    linkedActivity: (ticket: Ticket) => { activity: string; anchors: string[] } | undefined
+): { activities: Map<string, ResolvedActivity>; conflicts: ActivityConflict[] } {
+    const activities = new Map<string, ResolvedActivity>();
+    const resolved = new Map<string, ResolvedActivity | undefined>();
+    const conflicts: ActivityConflict[] = [];
+
+    // What a ticket passes down to its children
+    function resolve(ticket: Ticket): ResolvedActivity | undefined {
+        const key = ticket['Work item key'];
+        if (resolved.has(key)) return resolved.get(key);
+        // Mark the ticket as in progress so a cycle that slipped through ends the walk
+        resolved.set(key, undefined);
+
+        let result: ResolvedActivity | undefined;
+        if (isAnchor(ticket)) {
+            result = undefined;
+        } else {
+            const explicit = (ticket['R&DTI Activity'] || '').trim();
+            const inherited = inheritedFrom(ticket);
+            for (const origin of precedence) {
+                if (origin === 'explicit' && explicit) {
+                    result = { activity: explicit, origin, anchors: [] };
+                } else if (origin === 'linked') {
+                    const linked = linkedActivity(ticket);
+                    if (linked) result = { ...linked, origin };
+                } else if (origin === 'inherited' && inherited) {
+                    result = inherited;
+                }
+                if (result) break;
+            }
+
+            if (explicit && inherited && inherited.activity !== explicit) {
+                conflicts.push({
+                    ticket: key,
+                    explicit,
+                    inherited: inherited.activity,
+                    inheritedFrom: inherited.via!,
+                    used: result!.activity,
+                });
+            }
+            if (result) activities.set(key, result);
+        }
+
+        resolved.set(key, result);
+        return result;
+    }
+
+    // The activity of the nearest ancestor that has one
+    function inheritedFrom(ticket: Ticket): ResolvedActivity | undefined {
+        const parentKey = getParentKey(ticket);
+        const parent = parentKey && parentKey !== ticket['Work item key'] ? graph.tickets.get(parentKey) : undefined;
+        const fromParent = parent ? resolve(parent) : undefined;
+        if (!fromParent) return undefined;
+        return fromParent.origin === 'inherited'
+            ? fromParent
+            : { activity: fromParent.activity, origin: 'inherited', anchors: fromParent.anchors, via: parent!['Work item key'] };
+    }
+
+    rows.forEach(resolve);
+    // Report conflicts in row order rather than the order the hierarchy was walked
+    const rowIndex = new Map(rows.map((ticket, index) => [ticket['Work item key'], index]));
+    conflicts.sort((a, b) => rowIndex.get(a.ticket)! - rowIndex.get(b.ticket)!);
+    return { activities, conflicts };
+}
@@ -0,0 +1,230 @@
+import ExcelJS from 'exceljs';
+import fs from 'fs';
+import path from 'path';
+import { resolveColumns } from './columns';
+import { Config } from './config';
+import { InputError } from './errors';
+import { Logger, SILENT } from './log';
+import { Ticket } from './types';
+
+// A column of the input sheet: the header as it appears in the export and
+// the Ticket property its values are stored under
+export type SheetColumn = {
+    header: string;
+    field: string;
+};
+
+export type TicketTable = {
+    columns: SheetColumn[];
+    rows: Ticket[];
+};
+
+// Export formats tickets can be read from, by file extension
+export type InputFormat = 'xlsx' | 'csv' | 'json' | 'ndjson';
+
+const INPUT_FORMATS: Record<string, InputFormat> = {
+    '.xlsx': 'xlsx',
+    '.csv': 'csv',
+    '.json': 'json',
+    '.ndjson': 'ndjson',
+    '.jsonl': 'ndjson',
+};
+
+// "Inward issue link (Blocks)", "Outward issue link (Relates)", ... in a Jira CSV export
+const JIRA_LINK_COLUMN = /^(Inward|Outward) issue link \(.*\)$/;
+
+type TicketReader = (file: string, sheet: string | undefined, config: Config, log?: Logger) => Promise<TicketTable>;
+
+const TICKET_READERS: Record<InputFormat, TicketReader> = {
+    xlsx: readTicketsFromWorkbook,
+    csv: readTicketsFromCsv,
+    json: readTicketsFromJson,
+    ndjson: readTicketsFromJson,
+};
+
+// Extensions of the files tickets can be read from, e.g. for picking exports out of a directory
+export const INPUT_EXTENSIONS = Object.keys(INPUT_FORMATS);
+
+export function inputFormat(file: string): InputFormat {
+    const format = INPUT_FORMATS[path.extname(file).toLowerCase()];
+    if (!format) {
+        throw new InputError(`Unsupported input file ${file}: expected one of ${INPUT_EXTENSIONS.join(', ')}`);
+    }
+    return format;
+}
+
+// Read tickets from an export in whichever format its extension names. Every format
+// gives the same tickets for the same data.
+export async function readTicketsFromFile(file: string, sheet: string | undefined, config: Config, log: Logger = SILENT): Promise<TicketTable> {
+    const inputPath = path.resolve(file);
+    if (!fs.existsSync(inputPath)) {
+        throw new InputError(`Input file not found: ${inputPath}`);
+    }
+    const format = inputFormat(inputPath);
+    if (format !== 'xlsx' && sheet !== undefined) {
+        log.warn(`⚠️ --sheet only applies to xlsx exports; ignoring it for ${file}`);
+    }
+    return TICKET_READERS[format](inputPath, sheet, config, log);
+}
+
+// Read tickets from a worksheet of an xlsx export. `sheet` is a sheet name or a
+// 1-based sheet number; the first sheet is used when it's not given.
+export async function readTicketsFromWorkbook(file: string, sheet: string | undefined, config: Config, log: Logger = SILENT): Promise<TicketTable> {
+    const inputPath = path.resolve(file);
+    if (!fs.existsSync(inputPath)) {
+        throw new InputError(`Input file not found: ${inputPath}`);
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    try {
+        await workbook.xlsx.readFile(inputPath);
+    } catch (error) {
+        throw new InputError(`Could not read ${inputPath} as an xlsx workbook: ${(error as Error).message}`);
+    }
+
+    const worksheet = selectWorksheet(workbook, sheet);
+
+    const headerCells: { header: string; col: number }[] = [];
+    worksheet.getRow(1).eachCell((cell, colNumber) => {
+        if (cell.value) headerCells.push({ header: cell.value.toString(), col: colNumber });
+    });
+
+    const values: string[][] = [];
+    worksheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return; // skip header
+        values.push(headerCells.map(({ col }) => cellToString(row.getCell(col).value)));
+    });
+
+    return toTicketTable(headerCells.map(cell => cell.header), values, `sheet '${worksheet.name}'`, config, log);
+}
+
+// Read tickets from a CSV export. Jira writes multi-value fields as repeated columns
+// ("Labels", "Labels", ...), which are joined back into one comma-separated value, and
+// links as "Inward/Outward issue link (<type>)" columns, which become the linked work
+// items when the export has no linked work items column of its own.
+export async function readTicketsFromCsv(file: string, _sheet: string | undefined, config: Config, log: Logger = SILENT): Promise<TicketTable> {
+    const inputPath = path.resolve(file);
+    const workbook = new ExcelJS.Workbook();
+    let worksheet: ExcelJS.Worksheet;
+    try {
+        // Keep every value as the text in the file, the way Jira wrote it
+        worksheet = await workbook.csv.readFile(inputPath, { map: (value: string) => value });
+    } catch (error) {
+        throw new InputError(`Could not read ${inputPath} as a CSV export: ${(error as Error).message}`);
+    }
+
+    const lines: string[][] = [];
+    worksheet.eachRow(row => {
+        lines.push((row.values as ExcelJS.CellValue[]).slice(1).map(value => String(value ?? '')));
+    });
+    if (lines.length === 0) {
+        throw new InputError(`${inputPath} is empty`);
+    }
+    // Excel and Jira start UTF-8 CSV files with a byte order mark
+    const headers = lines[0].map((header, index) => (index === 0 ? header.replace(/^\uFEFF/, '') : header).trim());
+
+    const linkHeader = config.columns.linkedWorkItems;
+    const targetFor = (header: string) => !headers.includes(linkHeader) && JIRA_LINK_COLUMN.test(header) ? linkHeader : header;
+    const uniqueHeaders = Array.from(new Set(headers.filter(Boolean).map(targetFor)));
+
+    const values = lines.slice(1).map(line => {
+        const cells = new Map<string, string[]>();
+        headers.forEach((header, index) => {
+            const value = (line[index] ?? '').trim();
+            if (!header || !value) return;
+            cells.set(targetFor(header), [...(cells.get(targetFor(header)) ?? []), value]);
+        });
+        return uniqueHeaders.map(header => (cells.get(header) ?? []).join(', '));
+    });
+
+    return toTicketTable(uniqueHeaders, values, path.basename(inputPath), config, log);
+}
+
+// Read tickets from JSON: an array of tickets keyed by export header, or an object with
+// such an array under `tickets`. `.ndjson` files have one ticket per line instead.
+export async function readTicketsFromJson(file: string, _sheet: string | undefined, config: Config, log: Logger = SILENT): Promise<TicketTable> {
+    const inputPath = path.resolve(file);
+    let records: unknown;
+    try {
+        const text = fs.readFileSync(inputPath, 'utf8');
+        records = inputFormat(inputPath) === 'ndjson'
+            ? text.split(/\r?\n/).filter(line => line.trim() !== '').map(line => JSON.parse(line))
+            : JSON.parse(text);
+    } catch (error) {
+        throw new InputError(`Could not read ${inputPath} as JSON: ${(error as Error).message}`);
+    }
+
+    const tickets = Array.isArray(records) ? records : (records as { tickets?: unknown } | null)?.tickets;
+    if (!Array.isArray(tickets) || tickets.some(ticket => typeof ticket !== 'object' || ticket === null || Array.isArray(ticket))) {
+        throw new InputError(`${inputPath} should hold an array of tickets, each an object keyed by column header`);
+    }
+
+    // Headers in the order they first appear
+    const headers = Array.from(new Set(tickets.flatMap(ticket => Object.keys(ticket))));
+    const values = tickets.map(ticket => headers.map(header => jsonToString(ticket[header])));
+    return toTicketTable(headers, values, path.basename(inputPath), config, log);
+}
+
+// Tickets from a table of text values. Headers configured for a ticket field are stored
+// under that field's name.
+function toTicketTable(headers: string[], values: string[][], source: string, config: Config, log: Logger): TicketTable {
+    const { fieldByHeader, missingOptional } = resolveColumns(headers, config);
+    if (missingOptional.length > 0) {
+        const missing = missingOptional.map(id => `'${config.columns[id]}'`).join(', ');
+        log.warn(`⚠️ Optional column(s) ${missing} not in ${source}; treating them as empty`);
+    }
+
+    const columns = headers.map(header => ({ header, field: fieldByHeader.get(header) ?? header }));
+    const rows = values.map(line => {
+        const rowData: Ticket = {} as Ticket;
+        columns.forEach(({ field }, index) => {
+            rowData[field] = line[index] ?? '';
+        });
+        return rowData;
+    });
+    return { columns, rows };
+}
+
+// Pick a worksheet by name or 1-based number; the first sheet when `sheet` isn't given
+export function selectWorksheet(workbook: ExcelJS.Workbook, sheet: string | undefined): ExcelJS.Worksheet {
+    const available = workbook.worksheets.map(ws => `'${ws.name}'`).join(', ') || 'none';
+
+    if (sheet === undefined) {
+        const first = workbook.worksheets[0];
+        if (!first) throw new InputError('The input workbook has no sheets.');
+        return first;
+    }
+
+    const byName = workbook.worksheets.find(ws => ws.name === sheet);
+    if (byName) return byName;
+
+    // Fall back to a 1-based sheet number
+    if (/^\d+$/.test(sheet)) {
+        const byIndex = workbook.worksheets[Number(sheet) - 1];
+        if (byIndex) return byIndex;
+    }
+
+    throw new InputError(`Sheet '${sheet}' not found. Available sheets: ${available}`);
+}
+
+function cellToString(cellValue: ExcelJS.CellValue): string {
+    // Handle different cell value types properly
+    if (cellValue === null || cellValue === undefined) {
+        return '';
+    } else if (typeof cellValue === 'object' && 'text' in cellValue) {
+        // Handle rich text objects
+        return String(cellValue.text);
+    } else if (typeof cellValue === 'object' && 'hyperlink' in cellValue) {
+        // Handle hyperlink objects
+        return String(cellValue.hyperlink);
+    }
+    return cellValue.toString();
+}
+
+// A JSON value as it would appear in an export cell
+function jsonToString(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.map(jsonToString).filter(Boolean).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
@@ -0,0 +1,318 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ColumnId, COLUMN_IDS, TICKET_FIELDS, ticketField } from './columns';
+import { Config } from './config';
+import { ConfigError, InputError } from './errors';
+import { SheetColumn, TicketTable } from './input';
+import { Logger, SILENT } from './log';
+import { Ticket } from './types';
+
+export type JiraSettings = {
+    // Site URL, e.g. https://acme.atlassian.net; JIRA_BASE_URL overrides it
+    baseUrl?: string;
+    // Account email for basic auth; JIRA_EMAIL overrides it. The API token is only
+    // read from JIRA_API_TOKEN so it never ends up in a config file.
+    email?: string;
+    // Default query when --jql isn't given
+    jql?: string;
+    // Raw responses are cached here so reruns can work offline
+    cacheDir: string;
+    pageSize: number;
+    // Rounds of fetching linked, parent and child issues that aren't in the results yet
+    followDepth: number;
+    // Jira field id for ticket fields that live in custom fields, by column id
+    // (e.g. rdtiActivity: customfield_10050) or by header name for anchor rule fields
+    fields: Record<string, string>;
+};
+
+export const DEFAULT_JIRA_SETTINGS: JiraSettings = {
+    cacheDir: '.rd-tracking-cache/jira',
+    pageSize: 100,
+    followDepth: 3,
+    fields: {},
+};
+
+export type JiraReadOptions = {
+    jql: string;
+    // Only use cached responses
+    offline?: boolean;
+    log?: Logger;
+};
+
+type JiraNamed = {
+    name: string;
+};
+
+// Another issue as it appears in a parent or link
+type JiraIssueRef = {
+    key: string;
+    fields?: { summary?: string };
+};
+
+type JiraIssueLink = {
+    type?: JiraNamed;
+    outwardIssue?: JiraIssueRef;
+    inwardIssue?: JiraIssueRef;
+};
+
+// The system fields an issue is read from; custom fields are looked up by id
+type JiraFields = {
+    summary?: string;
+    parent?: JiraIssueRef | null;
+    issuelinks?: JiraIssueLink[];
+    issuetype?: JiraNamed | null;
+    status?: JiraNamed | null;
+    resolution?: JiraNamed | null;
+    assignee?: { displayName?: string } | null;
+    labels?: string[];
+    components?: JiraNamed[];
+    created?: string | null;
+    resolutiondate?: string | null;
+    statuscategorychangedate?: string | null;
+    [fieldId: string]: unknown;
+};
+
+export type JiraIssue = {
+    key: string;
+    fields: JiraFields;
+};
+
+type JiraSearchResponse = {
+    startAt: number;
+    maxResults: number;
+    total: number;
+    issues: JiraIssue[];
+    // Problems with the query when it's validated with validateQuery=warn
+    warningMessages?: string[];
+};
+
+// Fields that come from Jira's own issue fields rather than custom fields
+const SYSTEM_FIELDS = ['summary', 'parent', 'issuelinks', 'issuetype', 'status', 'resolution', 'assignee', 'labels', 'components', 'created', 'resolutiondate', 'statuscategorychangedate',
+    'timespent', 'aggregatetimespent', 'timeoriginalestimate'];
+
+// Time tracking fields, in seconds, under the headers Jira's own exports use, so they can
+// be used as hours sources
+const TIME_TRACKING_FIELDS: Record<string, string> = {
+    'Time Spent': 'timespent',
+    'Σ Time Spent': 'aggregatetimespent',
+    'Original Estimate': 'timeoriginalestimate',
+};
+
+// Keys per follow-up `key in (...)` / `parent in (...)` query
+const FOLLOW_BATCH_SIZE = 50;
+
+// Read tickets with a JQL query through the Jira Cloud REST API. Linked issues, parents
+// and children outside the query are fetched too so links and hierarchies resolve.
+// The tickets look the same as the ones read from an xlsx export.
+export async function readTicketsFromJira(options: JiraReadOptions, config: Config): Promise<TicketTable> {
+    const settings = config.jira;
+    const baseUrl = (process.env.JIRA_BASE_URL || settings.baseUrl || '').replace(/\/+$/, '');
+    const email = process.env.JIRA_EMAIL || settings.email;
+    const apiToken = process.env.JIRA_API_TOKEN;
+
+    if (!baseUrl) {
+        throw new ConfigError('No Jira site configured: set JIRA_BASE_URL or jira.baseUrl in the config file');
+    }
+    if (!options.offline && (!email || !apiToken)) {
+        throw new ConfigError('Jira credentials missing: set JIRA_EMAIL (or jira.email) and JIRA_API_TOKEN, or use --offline with cached responses');
+    }
+    const usesWorkHours = config.hoursSources.some(source => ticketField(source.field, config) === TICKET_FIELDS.workHours.field);
+    for (const id of (usesWorkHours ? ['rdtiActivity', 'workHours'] : ['rdtiActivity']) as ColumnId[]) {
+        if (!settings.fields[id]) {
+            throw new ConfigError(`jira.fields.${id} must name the Jira field holding ${TICKET_FIELDS[id].field}, e.g. customfield_10050`);
+        }
+    }
+
+    const client: JiraClient = {
+        baseUrl,
+        authorization: email && apiToken ? `Basic ${Buffer.from(`${email}:${apiToken}`).toString('base64')}` : '',
+        cacheDir: path.resolve(settings.cacheDir),
+        offline: !!options.offline,
+        fields: Array.from(new Set([...SYSTEM_FIELDS, ...Object.values(settings.fields)])),
+        pageSize: settings.pageSize,
+    };
+
+    const log = options.log ?? SILENT;
+    const issues = new Map<string, JiraIssue>();
+    for (const issue of await searchAll(client, options.jql)) {
+        issues.set(issue.key, issue);
+    }
+
+    // Follow links and parents up, and children down, a few rounds deep
+    let frontier = Array.from(issues.values());
+    for (let depth = 0; depth < settings.followDepth && frontier.length > 0; depth++) {
+        const missing = new Set<string>();
+        for (const issue of frontier) {
+            for (const key of [...linkedKeys(issue), ...(issue.fields.parent ? [issue.fields.parent.key] : [])]) {
+                if (!issues.has(key)) missing.add(key);
+            }
+        }
+
+        // Linked issues may have been deleted or be hidden from this account, so
+        // these queries only warn about keys Jira can't find
+        const found: JiraIssue[] = [];
+        for (const batch of chunk(Array.from(missing), FOLLOW_BATCH_SIZE)) {
+            found.push(...await searchAll(client, `key in (${batch.join(', ')}) ORDER BY key`, log));
+        }
+        for (const batch of chunk(frontier.map(issue => issue.key), FOLLOW_BATCH_SIZE)) {
+            found.push(...await searchAll(client, `parent in (${batch.join(', ')}) ORDER BY key`, log));
+        }
+
+        frontier = [];
+        for (const issue of found) {
+            if (!issues.has(issue.key)) {
+                issues.set(issue.key, issue);
+                frontier.push(issue);
+            }
+        }
+    }
+
+    const rows = Array.from(issues.values()).map(issue => issueToTicket(issue, settings));
+    log.info(`✅ Read ${rows.length} tickets from Jira (${client.offline ? 'cache' : baseUrl})`);
+    return { columns: jiraColumns(config), rows };
+}
+
+type JiraClient = {
+    baseUrl: string;
+    authorization: string;
+    cacheDir: string;
+    offline: boolean;
+    fields: string[];
+    pageSize: number;
+};
+
+// With `warnings`, problems Jira finds in the query are logged there instead of failing it
+async function searchAll(client: JiraClient, jql: string, warnings?: Logger): Promise<JiraIssue[]> {
+    const issues: JiraIssue[] = [];
+    let startAt = 0;
+
+    while (true) {
+        const params = new URLSearchParams({
+            jql,
+            startAt: String(startAt),
+            maxResults: String(client.pageSize),
+            fields: client.fields.join(','),
+            ...(warnings ? { validateQuery: 'warn' } : {}),
+        });
+        const page = await getJson<JiraSearchResponse>(client, `/rest/api/3/search?${params}`);
+        if (warnings && startAt === 0) {
+            for (const message of page.warningMessages ?? []) {
+                warnings.warn(`⚠️ Jira: ${message}`);
+            }
+        }
+        issues.push(...page.issues);
+        startAt += page.issues.length;
+        if (page.issues.length === 0 || startAt >= page.total) break;
+    }
+
+    return issues;
+}
+
+async function getJson<T>(client: JiraClient, requestPath: string): Promise<T> {
+    const url = `${client.baseUrl}${requestPath}`;
+    const cacheFile = path.join(client.cacheDir, `${crypto.createHash('sha1').update(url).digest('hex')}.json`);
+
+    if (client.offline) {
+        if (!fs.existsSync(cacheFile)) {
+            throw new InputError(`No cached Jira response for ${url}; run once without --offline to fill the cache`);
+        }
+        return JSON.parse(fs.readFileSync(cacheFile, 'utf8')).body as T;
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(url, { headers: { Authorization: client.authorization, Accept: 'application/json' } });
+    } catch (error) {
+        throw new InputError(`Could not reach Jira at ${client.baseUrl}: ${(error as Error).message}`);
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+        let detail = text;
+        try {
+            detail = (JSON.parse(text).errorMessages || []).join('; ') || text;
+        } catch {
+            // not a JSON error body
+        }
+        throw new InputError(`Jira request failed (${response.status} ${response.statusText}): ${detail}`);
+    }
+
+    const body = JSON.parse(text) as T;
+    fs.mkdirSync(client.cacheDir, { recursive: true });
+    fs.writeFileSync(cacheFile, JSON.stringify({ url, fetchedAt: new Date().toISOString(), body }, null, 2));
+    return body;
+}
+
+function issueToTicket(issue: JiraIssue, settings: JiraSettings): Ticket {
+    const fields = issue.fields;
+    const parent = fields.parent;
+
+    const ticket: Ticket = {
+        'Work item key': issue.key,
+        'Summary': fields.summary ?? '',
+        // Same "<key> <summary>" shape as the Parent column of an export
+        'Parent': parent ? `${parent.key} ${parent.fields?.summary ?? ''}` : '',
+        'Linked work items': linkedKeys(issue).join(', '),
+        'Work type': fields.issuetype?.name ?? '',
+        'Status': fields.status?.name ?? '',
+        'Resolution': fields.resolution?.name ?? '',
+        'Assignee': fields.assignee?.displayName ?? '',
+        'Labels': (fields.labels ?? []).join(' '),
+        'Components': (fields.components ?? []).map(component => component.name).join(', '),
+        'Created': fields.created ?? '',
+        'Resolved': fields.resolutiondate ?? '',
+        'Status Category Changed': fields.statuscategorychangedate ?? '',
+    };
+    for (const [header, fieldId] of Object.entries(TIME_TRACKING_FIELDS)) {
+        ticket[header] = fieldToString(fields[fieldId]);
+    }
+
+    for (const [name, fieldId] of Object.entries(settings.fields)) {
+        const field = (COLUMN_IDS as string[]).includes(name) ? TICKET_FIELDS[name as ColumnId].field : name;
+        const value = fields[fieldId];
+        // A number in the hours field is a number of hours
+        ticket[field] = name === 'workHours' && typeof value === 'number' ? `${value}h` : fieldToString(value);
+    }
+
+    return ticket;
+}
+
+function jiraColumns(config: Config): SheetColumn[] {
+    const columns: SheetColumn[] = [{ header: 'Summary', field: 'Summary' }];
+    for (const id of COLUMN_IDS) {
+        columns.push({ header: config.columns[id], field: TICKET_FIELDS[id].field });
+    }
+    for (const name of Object.keys(config.jira.fields)) {
+        if (!(COLUMN_IDS as string[]).includes(name)) columns.push({ header: name, field: name });
+    }
+    for (const header of Object.keys(TIME_TRACKING_FIELDS)) {
+        if (!columns.some(column => column.header === header)) columns.push({ header, field: header });
+    }
+    return columns;
+}
+
+function linkedKeys(issue: JiraIssue): string[] {
+    return (issue.fields.issuelinks ?? [])
+        .map(link => link.outwardIssue?.key ?? link.inwardIssue?.key)
+        .filter((key): key is string => !!key);
+}
+
+// Option, user and array values as they'd appear in an export cell
+function fieldToString(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.map(fieldToString).filter(Boolean).join(', ');
+    if (typeof value === 'object') {
+        const option = value as { displayName?: unknown; value?: unknown; name?: unknown; key?: unknown };
+        return String(option.displayName ?? option.value ?? option.name ?? option.key ?? JSON.stringify(value));
+    }
+    return String(value);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { InputError } from './errors';
+import { JiraIssue } from './jira';
+
+// A stand-in for Jira Cloud's search API, served from recorded fixtures:
+// - issues.json: the recorded issues, as returned in /rest/api/3/search results
+// - queries.json: the recorded result of each top-level JQL query, as a list of keys
+// The follow-up `key in (...)` and `parent in (...)` queries are answered from the issues.
+// Like Jira, they fail on keys that aren't in the issues unless validateQuery=warn is given,
+// which turns those into warnings.
+export type MockJiraServer = {
+    url: string;
+    close(): Promise<void>;
+};
+
+type Fixtures = {
+    issues: JiraIssue[];
+    queries: Record<string, string[]>;
+};
+
+export function loadJiraFixtures(fixturesDir: string): Fixtures {
+    const read = (name: string) => {
+        const file = path.join(fixturesDir, name);
+        if (!fs.existsSync(file)) throw new InputError(`Jira fixture not found: ${file}`);
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    };
+    return { issues: read('issues.json'), queries: read('queries.json') };
+}
+
+// Start the mock server on localhost; port 0 picks a free port
+export function startMockJiraServer(fixtures: Fixtures, port = 0): Promise<MockJiraServer> {
+    const server = http.createServer((request, response) => {
+        const send = (status: number, body: unknown) => {
+            response.writeHead(status, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify(body));
+        };
+
+        const url = new URL(request.url || '/', 'http://localhost');
+        if (request.method !== 'GET' || url.pathname !== '/rest/api/3/search') {
+            return send(404, { errorMessages: [`No mock for ${request.method} ${url.pathname}`] });
+        }
+        if (!request.headers.authorization) {
+            return send(401, { errorMessages: ['Authentication required'] });
+        }
+
+        const jql = url.searchParams.get('jql') || '';
+        const result = searchFixtures(fixtures, jql);
+        if (!result) {
+            return send(400, { errorMessages: [`No recorded results for JQL: ${jql}`] });
+        }
+        const { matches, unknownKeys } = result;
+        const problems = unknownKeys.map(key => `An issue with key '${key}' does not exist for field 'key'.`);
+        if (problems.length > 0 && url.searchParams.get('validateQuery') !== 'warn') {
+            return send(400, { errorMessages: problems });
+        }
+
+        const startAt = Number(url.searchParams.get('startAt') || 0);
+        const maxResults = Number(url.searchParams.get('maxResults') || 50);
+        send(200, {
+            startAt,
+            maxResults,
+            total: matches.length,
+            issues: matches.slice(startAt, startAt + maxResults),
+            ...(problems.length > 0 ? { warningMessages: problems } : {}),
+        });
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            const address = server.address() as { port: number };
+            resolve({
+                url: `http://127.0.0.1:${address.port}`,
+                close: () => new Promise(done => server.close(() => done())),
+            });
+        });
+    });
+}
+
+// The issues a query matches, and the keys it names that no issue has
+function searchFixtures(fixtures: Fixtures, jql: string): { matches: JiraIssue[]; unknownKeys: string[] } | undefined {
+    const query = jql.replace(/\s+ORDER BY\s+.*$/i, '').trim();
+    const keysIn = (list: string) => new Set(list.split(',').map(key => key.trim()));
+    const unknownIn = (keys: Set<string>) => Array.from(keys).filter(key => !fixtures.issues.some(issue => issue.key === key));
+
+    const byKey = /^key in \((.*)\)$/i.exec(query);
+    if (byKey) {
+        const keys = keysIn(byKey[1]);
+        return { matches: fixtures.issues.filter(issue => keys.has(issue.key)), unknownKeys: unknownIn(keys) };
+    }
+
+    const byParent = /^parent in \((.*)\)$/i.exec(query);
+    if (byParent) {
+        const keys = keysIn(byParent[1]);
+        return { matches: fixtures.issues.filter(issue => issue.fields.parent && keys.has(issue.fields.parent.key)), unknownKeys: unknownIn(keys) };
+    }
+
+    const recorded = fixtures.queries[jql] ?? fixtures.queries[query];
+    if (!recorded) return undefined;
+    const keys = new Set(recorded);
+    return { matches: fixtures.issues.filter(issue => keys.has(issue.key)), unknownKeys: [] };
+}
@@ -0,0 +1,60 @@
+// The library API, for tools that want the claim without going through the command
+// line. A run goes load → resolve → attribute → aggregate → render, and each stage
+// takes the typed output of the one before it:
+//
+//   const config = loadConfig('rd-tracking.config.yaml');
+//   const inputs = await loadInputs({ input: ['export.xlsx'] }, config);
+//   const analysis = analyseInputs(inputs, config);
+//   const summary = aggregateContributors(analysis.attributed, analysis.rateCard);
+//
+// Tools with tickets already in memory can build LoadedInputs themselves, or call the
+// stages one at a time: resolveTickets, sumWIPHours and attributeContributors.
+//
+// Nothing is printed to the console; pass a `log` in the options to get progress
+// messages and warnings.
+
+export type { Ticket, Contributor, AttributionMethod, TraceStep } from './types';
+export type { Issue, IssueSeverity } from './validation';
+export { RdTrackingError, UsageError, ConfigError, InputError, ValidationError } from './errors';
+
+export type { Config } from './config';
+export { DEFAULT_CONFIG, loadConfig, resolveConfig } from './config';
+export type { Logger } from './log';
+export { SILENT } from './log';
+
+// Load
+export type { AnalysisOptions, LoadedInputs } from './load';
+export { describeSource, loadInputs } from './load';
+
+// Resolve
+export type { ClaimShares, ResolvedTickets, TicketModel } from './resolve';
+export { getAnchorShares, getClaimShares, getShareOfHours, isExcluded, isMapTicket, resolveTickets } from './resolve';
+
+// Attribute
+export type { Attribution, BoundaryTicket } from './attribute';
+export {
+    attributeContributors,
+    collectContributors,
+    getOwnHours,
+    getPeopleCount,
+    getWIPHours,
+    getWorklogHours,
+    loggedHoursByTicket,
+    sumWIPHours,
+    traceContributorsFromLinkedItems,
+} from './attribute';
+export type { Adjustment, Override } from './overrides';
+export { applyOverrides } from './overrides';
+export type { Analysis, ExcludedTicket, ProcessOptions } from './process';
+export { analyseInputs, analyseTickets, processWorkbook } from './process';
+
+// Aggregate
+export type { ActivityTotals, ContributorSummary, HoursBreakdown, UncostedHours } from './aggregate';
+export { aggregateContributors, breakdownHours, findUncosted, summaryCost, totalByActivity } from './aggregate';
+
+// Render
+export type { RenderOptions } from './render';
+export { renderWorkbook } from './render';
+export type { ContributorRecord, JsonOutput, NdjsonRecord, SummaryRecord } from './output';
+export { buildJsonOutput, writeCsvSheets, writeJsonOutput } from './output';
+export { explainTicket, formatProvenance } from './explain';
@@ -0,0 +1,113 @@
+import { Issue } from './validation';
+import { Ticket } from './types';
+
+// What to do with a ticket linked to several MAP tickets (activity anchors):
+// - 'first-wins': the first linked MAP ticket gets the activity and all of the hours
+// - 'split-evenly': every linked MAP ticket gets an equal share of the hours
+// - 'split-by-weight': shares come from weights on the links, e.g. "MAP-1 (60%), MAP-2 (40%)"
+// - 'reject': links to MAP tickets with different activities are a conflict and nothing is claimed
+export type MultiAnchorPolicy = 'first-wins' | 'split-evenly' | 'split-by-weight' | 'reject';
+
+export const MULTI_ANCHOR_POLICIES: MultiAnchorPolicy[] = ['first-wins', 'split-evenly', 'split-by-weight', 'reject'];
+
+// The share of a ticket's hours attributed to one MAP ticket
+export type AnchorShare = {
+    anchor: Ticket;
+    activity: string;
+    fraction: number;
+};
+
+export type AnchorResolution = {
+    shares: AnchorShare[];
+    issue?: Issue;
+};
+
+// Weights written after a link in a 'Linked work items' cell: "MAP-1 (60%)", "MAP-1 (3)"
+export function parseLinkWeights(linkedWorkItems: string): Map<string, number> {
+    const weights = new Map<string, number>();
+    for (const item of (linkedWorkItems || '').split(',')) {
+        const match = /^\s*(\S+)\s*\(\s*(\d+(?:\.\d+)?)\s*%?\s*\)\s*$/.exec(item);
+        if (match) weights.set(match[1], parseFloat(match[2]));
+    }
+    return weights;
+}
+
+// Decide how a ticket's hours and activity are shared between the MAP tickets it's
+// linked to. `anchors` are in link order and all carry an R&DTI Activity.
+export function resolveAnchorShares(ticket: Ticket, anchors: Ticket[], policy: MultiAnchorPolicy): AnchorResolution {
+    const key = ticket['Work item key'];
+    const share = (anchor: Ticket, fraction: number): AnchorShare => ({ anchor, activity: anchor['R&DTI Activity']!, fraction });
+
+    if (anchors.length === 0) return { shares: [] };
+    if (anchors.length === 1) return { shares: [share(anchors[0], 1)] };
+
+    const anchorKeys = anchors.map(anchor => anchor['Work item key']).join(', ');
+    const activities = new Set(anchors.map(anchor => anchor['R&DTI Activity']));
+
+    switch (policy) {
+        case 'first-wins':
+            return { shares: [share(anchors[0], 1)] };
+
+        case 'split-evenly':
+            return { shares: anchors.map(anchor => share(anchor, 1 / anchors.length)) };
+
+        case 'split-by-weight': {
+            const weights = anchors.map(anchor => linkWeight(ticket, anchor));
+            const total = weights.reduce<number>((sum, weight) => sum + (weight ?? 0), 0);
+            if (weights.some(weight => weight === undefined) || total <= 0) {
+                return {
+                    shares: anchors.map(anchor => share(anchor, 1 / anchors.length)),
+                    issue: {
+                        severity: 'warning',
+                        ticket: key,
+                        check: 'Missing link weight',
+                        message: `Linked to ${anchorKeys} without a weight on every link; hours were split evenly`,
+                    },
+                };
+            }
+            return { shares: anchors.map((anchor, index) => share(anchor, weights[index]! / total)) };
+        }
+
+        case 'reject':
+            if (activities.size === 1) {
+                // Same activity either way: count the hours once, under the first link
+                return { shares: [share(anchors[0], 1)] };
+            }
+            return {
+                shares: [],
+                issue: {
+                    severity: 'error',
+                    ticket: key,
+                    check: 'Activity conflict',
+                    message: `Linked to ${anchorKeys} with different activities (${Array.from(activities).join(', ')}); its hours were not claimed`,
+                },
+            };
+    }
+}
+
+// The activity all of a ticket's shares are under; null when there are none, or when
+// they're split between activities
+export function sharedActivity(shares: AnchorShare[]): string | null {
+    const activities = new Set(shares.map(share => share.activity));
+    return activities.size === 1 ? shares[0].activity : null;
+}
+
+// How shares split between activities divide the hours, e.g.
+// "Search ranking (50%) / Recommendations (50%)"; null when they aren't split
+export function describeSplit(shares: AnchorShare[]): string | null {
+    const byActivity = new Map<string, number>();
+    for (const { activity, fraction } of shares) {
+        byActivity.set(activity, (byActivity.get(activity) ?? 0) + fraction);
+    }
+    if (byActivity.size < 2) return null;
+
+    return Array.from(byActivity)
+        .map(([activity, fraction]) => `${activity} (${Math.round(fraction * 100)}%)`)
+        .join(' / ');
+}
+
+// A weight can be written on either side of the link
+function linkWeight(ticket: Ticket, anchor: Ticket): number | undefined {
+    return parseLinkWeights(ticket['Linked work items'] || '').get(anchor['Work item key'])
+        ?? parseLinkWeights(anchor['Linked work items'] || '').get(ticket['Work item key']);
+}
@@ -0,0 +1,116 @@
+import path from 'path';
+import { Capacity, capacityNeedsPeriod, readCapacity } from './capacity';
+import { readRoster, Roster } from './classify';
+import { Config } from './config';
+import { UsageError } from './errors';
+import { SheetColumn } from './input';
+import { readTicketsFromJira } from './jira';
+import { Logger, SILENT } from './log';
+import { expandInputs, readTicketsFromInputs } from './merge';
+import { Override, readOverrides } from './overrides';
+import { parsePeriod, Period } from './periods';
+import { RateCard, readRateCard } from './rates';
+import { Ticket } from './types';
+import { Issue } from './validation';
+import { readWorklogs, Worklog } from './worklogs';
+
+export type AnalysisOptions = {
+    // Exports, or directories of exports, to read and merge; when none are given,
+    // tickets are fetched from Jira with `jql`
+    input?: string[];
+    // Sheet name or 1-based sheet number in every export; defaults to the first sheet
+    sheet?: string;
+    jql?: string;
+    // Only use cached Jira responses
+    offline?: boolean;
+    // Rate card (.csv or .xlsx); overrides rateCard.file from the config
+    rates?: string;
+    // People roster (.csv or .xlsx); overrides classification.roster.file from the config
+    roster?: string;
+    // Claim period, e.g. FY2026; overrides periods.period from the config
+    period?: string;
+    // Worklog file (.xlsx or .csv); overrides worklogs.file from the config
+    worklogs?: string;
+    // Worklog sheet, in the worklog file or else the input workbook; overrides worklogs.sheet
+    worklogSheet?: string;
+    // Capacity file (.csv or .xlsx); overrides capacity.file from the config
+    capacity?: string;
+    // Analyst overrides file (.yaml, .csv or .xlsx); overrides overrides.file from the config
+    overrides?: string;
+    // Progress messages and warnings; nothing is printed when it's not given
+    log?: Logger;
+};
+
+// Everything a run reads: the tickets and the side files that go with them. Tools that
+// already have their tickets in memory can build this themselves and skip loadInputs.
+export type LoadedInputs = {
+    columns: SheetColumn[];
+    rows: Ticket[];
+    period?: Period;
+    rateCard?: RateCard;
+    roster?: Roster;
+    capacity?: Capacity;
+    // Worklogs by ticket key; tickets with worklogs have their hours attributed from them
+    worklogs?: Map<string, Worklog[]>;
+    // Analyst overrides, when an overrides file is given
+    overrides?: Override[];
+    // Problems found while reading, such as conflicting duplicates and unreadable worklogs
+    issues?: Issue[];
+};
+
+// Read the tickets from the exports or Jira, and the rate card, roster, capacity,
+// worklog and overrides files given in the options or the config
+export async function loadInputs(options: AnalysisOptions, config: Config): Promise<LoadedInputs> {
+    const log = options.log ?? SILENT;
+    const periodSpec = options.period ?? config.periods.period;
+    const period = periodSpec ? parsePeriod(periodSpec) : undefined;
+    if (periodSpec && !period) {
+        throw new UsageError(`Invalid period '${periodSpec}'. Use FY2026, FY2026-Q1 or 2025-07-01..2025-12-31.`);
+    }
+
+    // Worklogs come from their own file, or from a sheet of the input workbook
+    const worklogSheet = options.worklogSheet ?? config.worklogs.sheet;
+    const worklogSource = options.worklogs ?? config.worklogs.file ?? (worklogSheet !== undefined ? singleInputFile(options) : undefined);
+    if (worklogSheet !== undefined && worklogSource === undefined) {
+        throw new UsageError('A worklog sheet needs a single input workbook to read it from; use --worklogs <file> with --jql or several inputs');
+    }
+
+    const { columns, rows, issues } = options.input !== undefined
+        ? await readTicketsFromInputs(options.input, options.sheet, config, log)
+        : { ...(await readTicketsFromJira({ jql: options.jql ?? config.jira.jql ?? '', offline: options.offline, log }, config)), issues: [] };
+    const rateCardFile = options.rates ?? config.rateCard.file;
+    const rateCard: RateCard | undefined = rateCardFile ? await readRateCard(rateCardFile, config.rateCard.columns) : undefined;
+    const rosterFile = options.roster ?? config.classification.roster.file;
+    const roster: Roster | undefined = rosterFile ? await readRoster(rosterFile, config.classification.roster.columns) : undefined;
+    const capacityFile = options.capacity ?? config.capacity.file;
+    const capacity: Capacity | undefined = capacityFile ? await readCapacity(capacityFile, config.capacity.columns) : undefined;
+    if (capacity && !period && capacityNeedsPeriod(capacity)) {
+        throw new UsageError('Capacity from FTE and dates needs a claim period; use --period, or give hours paid for everyone');
+    }
+    const overridesFile = options.overrides ?? config.overrides.file;
+    const overrides: Override[] | undefined = overridesFile ? await readOverrides(overridesFile, config.overrides.columns, config) : undefined;
+
+    let worklogs: Map<string, Worklog[]> | undefined;
+    if (worklogSource !== undefined) {
+        const worklogResult = await readWorklogs(worklogSource, worklogSheet, config.worklogs, config);
+        worklogs = worklogResult.worklogs;
+        issues.push(...worklogResult.issues);
+        const worklogCount = Array.from(worklogs.values()).reduce((total, entries) => total + entries.length, 0);
+        log.info(`✅ Read ${worklogCount} worklogs on ${worklogs.size} tickets`);
+    }
+
+    return { columns, rows, period, rateCard, roster, capacity, worklogs, overrides, issues };
+}
+
+// Where a run's tickets came from, for snapshots
+export function describeSource(options: AnalysisOptions, config: Config): string {
+    return options.input !== undefined
+        ? expandInputs(options.input).map(file => path.resolve(file)).join(', ')
+        : `jql: ${options.jql ?? config.jira.jql ?? ''}`;
+}
+
+// The input workbook when the tickets come from exactly one file
+export function singleInputFile(options: AnalysisOptions): string | undefined {
+    const files = options.input !== undefined ? expandInputs(options.input) : [];
+    return files.length === 1 ? files[0] : undefined;
+}
@@ -0,0 +1,14 @@
+// Where progress messages, warnings and errors go. Library code prints nothing itself; the
+// command line passes a logger that writes to the console.
+export type Logger = {
+    info(message: string): void;
+    warn(message: string): void;
+    error(message: string): void;
+};
+
+// The logger used when none is given
+export const SILENT: Logger = {
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+};
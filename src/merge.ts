@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { Config } from './config';
+import { InputError } from './errors';
+import { INPUT_EXTENSIONS, readTicketsFromFile, TicketTable } from './input';
+import { Logger, SILENT } from './log';
+import { Ticket } from './types';
+import { Issue } from './validation';
+
+// Column added to the tickets of a merged run, naming the file(s) each ticket came from
+export const SOURCE_FILE_FIELD = 'Source File';
+
+// The export files to read: files as given, directories as the exports directly in
+// them, sorted by name
+export function expandInputs(inputs: string[]): string[] {
+    const files: string[] = [];
+    for (const input of inputs) {
+        const inputPath = path.resolve(input);
+        if (!fs.existsSync(inputPath) || !fs.statSync(inputPath).isDirectory()) {
+            files.push(input);
+            continue;
+        }
+        // Skip the lock files Excel leaves next to open workbooks, and saved run snapshots
+        const exports = fs.readdirSync(inputPath)
+            .filter(name => INPUT_EXTENSIONS.includes(path.extname(name).toLowerCase()) && !name.startsWith('~$') && !name.endsWith('.snapshot.json'))
+            .sort()
+            .map(name => path.join(input, name));
+        if (exports.length === 0) {
+            throw new InputError(`No exports (${INPUT_EXTENSIONS.join(', ')}) found in directory ${inputPath}`);
+        }
+        files.push(...exports);
+    }
+    return Array.from(new Set(files));
+}
+
+// Read every input and merge them into one ticket set. A key found in several files
+// becomes one ticket: the first file's values win, blanks are filled in from the
+// others, and differing values are reported. Tickets are tagged with their source
+// file when there's more than one.
+export async function readTicketsFromInputs(inputs: string[], sheet: string | undefined, config: Config, log: Logger = SILENT): Promise<TicketTable & { issues: Issue[] }> {
+    const files = expandInputs(inputs);
+    if (files.length === 1) {
+        return { ...(await readTicketsFromFile(files[0], sheet, config, log)), issues: [] };
+    }
+
+    const issues: Issue[] = [];
+    const columns: TicketTable['columns'] = [];
+    const rows: Ticket[] = [];
+    // First row for each key across files, and the file it came from
+    const byKey = new Map<string, { ticket: Ticket; file: string }>();
+    const names = sourceNames(files);
+    let duplicates = 0;
+
+    for (const file of files) {
+        const table = await readTicketsFromFile(file, sheet, config, log);
+        const name = names.get(file)!;
+        for (const column of table.columns) {
+            if (!columns.some(existing => existing.field === column.field)) columns.push(column);
+        }
+
+        // Keys repeated within one file are left for validation to report
+        const seenInFile = new Set<string>();
+        for (const ticket of table.rows) {
+            const key = ticket['Work item key'];
+            const first = key ? byKey.get(key) : undefined;
+            if (!first || seenInFile.has(key)) {
+                ticket[SOURCE_FILE_FIELD] = name;
+                rows.push(ticket);
+                if (key && !first) byKey.set(key, { ticket, file: name });
+                seenInFile.add(key);
+                continue;
+            }
+
+            duplicates++;
+            seenInFile.add(key);
+            mergeDuplicate(first.ticket, ticket, first.file, name, issues);
+            first.ticket[SOURCE_FILE_FIELD] += `, ${name}`;
+        }
+    }
+
+    columns.push({ header: SOURCE_FILE_FIELD, field: SOURCE_FILE_FIELD });
+    log.info(`✅ Merged ${rows.length} tickets from ${files.length} files (${duplicates} duplicate rows combined)`);
+    return { columns, rows, issues };
+}
+
+// Fill in a ticket's blank fields from a duplicate in another file, reporting the fields
+// where both have different values
+function mergeDuplicate(kept: Ticket, duplicate: Ticket, keptFile: string, duplicateFile: string, issues: Issue[]): void {
+    for (const [field, value] of Object.entries(duplicate)) {
+        if (field === SOURCE_FILE_FIELD) continue;
+        const keptValue = String(kept[field] ?? '').trim();
+        const duplicateValue = String(value ?? '').trim();
+        if (duplicateValue === '' || keptValue === duplicateValue) continue;
+
+        if (keptValue === '') {
+            kept[field] = value;
+            continue;
+        }
+        issues.push({
+            severity: 'warning',
+            ticket: kept['Work item key'],
+            check: 'Conflicting duplicate',
+            message: `${field} is '${keptValue}' in ${keptFile} but '${duplicateValue}' in ${duplicateFile}; the value from ${keptFile} was used`,
+        });
+    }
+}
+
+// Short names for the input files: their file names, or paths when two share a name
+function sourceNames(files: string[]): Map<string, string> {
+    const counts = new Map<string, number>();
+    for (const file of files) counts.set(path.basename(file), (counts.get(path.basename(file)) ?? 0) + 1);
+    return new Map(files.map(file => [file, counts.get(path.basename(file))! > 1 ? path.normalize(file) : path.basename(file)]));
+}
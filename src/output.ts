@@ -0,0 +1,176 @@
+import ExcelJS from 'exceljs';
+import fs from 'fs';
+import path from 'path';
+import { aggregateContributors, ContributorSummary, summaryCost } from './aggregate';
+import { UsageError } from './errors';
+import { formatDate } from './periods';
+import { Adjustment } from './overrides';
+import { Analysis } from './process';
+import { ContributorCost, costHours, roundCents } from './rates';
+import { AttributionMethod, Contributor } from './types';
+import { Issue } from './validation';
+
+// Formats the results can be written in, by the extension of the output file:
+// - 'xlsx': one workbook with a sheet per table
+// - 'csv': one CSV file per sheet, named <out>.<sheet>.csv
+// - 'json': one JsonOutput document
+// - 'ndjson': one JSON record per line, each with a `type`
+export type OutputFormat = 'xlsx' | 'csv' | 'json' | 'ndjson';
+
+const OUTPUT_FORMATS: Record<string, OutputFormat> = {
+    '.xlsx': 'xlsx',
+    '.csv': 'csv',
+    '.json': 'json',
+    '.ndjson': 'ndjson',
+    '.jsonl': 'ndjson',
+};
+
+export const OUTPUT_SCHEMA_VERSION = 1;
+
+// One row of 'Transformed Data': hours attributed to a person from one work item
+export type ContributorRecord = {
+    // R&DTI activity the hours are claimed under (the Project column)
+    activity: string;
+    who: string;
+    role: string;
+    activityType: string;
+    hours: number;
+    // Set when a rate card is given and has a rate for the person
+    hourlyRate?: number;
+    labourCost?: number;
+    onCost?: number;
+    phase: string;
+    workItem: string;
+    // YYYY-MM-DD, when the export has dates
+    date?: string;
+    method?: AttributionMethod;
+};
+
+// One row of 'Project Summary': a person's hours on one activity
+export type SummaryRecord = {
+    activity: string;
+    who: string;
+    role: string;
+    activityType: string;
+    hours: number;
+    // Blended over the hours that could be costed, when a rate card is given
+    hourlyRate?: number;
+    labourCost?: number;
+    onCost?: number;
+    phase: string;
+    workItems: string[];
+};
+
+// The document written for a .json output file. Hours are decimal hours; money is in
+// the rate card's currency.
+export type JsonOutput = {
+    version: typeof OUTPUT_SCHEMA_VERSION;
+    // Input files or JQL query the tickets came from
+    source: string;
+    period?: string;
+    loggedHours: number;
+    attributedHours: number;
+    contributors: ContributorRecord[];
+    summary: SummaryRecord[];
+    // Changes made by the analyst overrides, when an overrides file is given
+    adjustments?: Adjustment[];
+    issues: Issue[];
+};
+
+// A line of a .ndjson output file: each contributor, summary row and issue as its own
+// record, after a header record with the run's totals
+export type NdjsonRecord =
+    | ({ type: 'run' } & Omit<JsonOutput, 'contributors' | 'summary' | 'adjustments' | 'issues'>)
+    | ({ type: 'contributor' } & ContributorRecord)
+    | ({ type: 'summary' } & SummaryRecord)
+    | ({ type: 'adjustment' } & Adjustment)
+    | ({ type: 'issue' } & Issue);
+
+export function outputFormat(file: string): OutputFormat {
+    const format = OUTPUT_FORMATS[path.extname(file).toLowerCase()];
+    if (!format) {
+        throw new UsageError(`Unsupported output file ${file}: expected one of ${Object.keys(OUTPUT_FORMATS).join(', ')}`);
+    }
+    return format;
+}
+
+// The results of an analysis as one JSON document
+export function buildJsonOutput(analysis: Analysis, source: string): JsonOutput {
+    const { rateCard, period, reconciliation, attributed, adjustments, issues } = analysis;
+    return {
+        version: OUTPUT_SCHEMA_VERSION,
+        source,
+        period: period?.label,
+        loggedHours: roundCents(reconciliation.loggedHours),
+        attributedHours: roundCents(reconciliation.attributedHours),
+        contributors: attributed.map(contributor =>
+            contributorRecord(contributor, rateCard ? costHours(rateCard, contributor.who, contributor.hoursCost, contributor.date) : undefined)),
+        summary: aggregateContributors(attributed, rateCard).map(summaryRecord),
+        adjustments,
+        issues,
+    };
+}
+
+export function contributorRecord(contributor: Contributor, cost: ContributorCost | undefined): ContributorRecord {
+    return {
+        activity: contributor.project,
+        who: contributor.who,
+        role: contributor.role,
+        activityType: contributor.activityType,
+        hours: contributor.hoursCost,
+        ...costFields(cost),
+        phase: contributor.phase,
+        workItem: contributor.workItem,
+        date: contributor.date ? formatDate(contributor.date) : undefined,
+        method: contributor.method,
+    };
+}
+
+export function summaryRecord(summary: ContributorSummary): SummaryRecord {
+    return {
+        activity: summary.project,
+        who: summary.who,
+        role: summary.role,
+        activityType: summary.activityType,
+        hours: summary.totalHours,
+        ...costFields(summaryCost(summary)),
+        phase: summary.phase,
+        workItems: Array.from(summary.workItems),
+    };
+}
+
+export function costFields(cost: ContributorCost | undefined): Pick<ContributorRecord, 'hourlyRate' | 'labourCost' | 'onCost'> {
+    return cost ? { hourlyRate: cost.hourlyRate, labourCost: cost.labourCost, onCost: cost.onCost } : {};
+}
+
+// Write every sheet of the workbook to its own CSV file next to `out`:
+// claim.csv → claim.results.csv, claim.transformed-data.csv, ...
+export async function writeCsvSheets(workbook: ExcelJS.Workbook, out: string): Promise<string[]> {
+    const parsed = path.parse(path.resolve(out));
+    const written: string[] = [];
+    for (const worksheet of workbook.worksheets) {
+        const slug = worksheet.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+        const file = path.join(parsed.dir, `${parsed.name}.${slug}.csv`);
+        await workbook.csv.writeFile(file, { sheetName: worksheet.name });
+        written.push(file);
+    }
+    return written;
+}
+
+export function writeJsonOutput(out: string, format: 'json' | 'ndjson', output: JsonOutput): void {
+    const file = path.resolve(out);
+    if (format === 'json') {
+        fs.writeFileSync(file, JSON.stringify(output, null, 2) + '\n');
+        return;
+    }
+
+    const { contributors, summary, adjustments, issues, ...run } = output;
+    const records: NdjsonRecord[] = [
+        { type: 'run', ...run },
+        ...contributors.map(record => ({ type: 'contributor' as const, ...record })),
+        ...summary.map(record => ({ type: 'summary' as const, ...record })),
+        ...(adjustments ?? []).map(adjustment => ({ type: 'adjustment' as const, ...adjustment })),
+        ...issues.map(issue => ({ type: 'issue' as const, ...issue })),
+    ];
+    fs.writeFileSync(file, records.map(record => JSON.stringify(record)).join('\n') + '\n');
+}
@@ -0,0 +1,309 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { InputError } from './errors';
+import { TicketGraph } from './graph';
+import { parseHours, WorkingTime } from './hours';
+import { roundCents } from './rates';
+import { eachSheetRow, readSheetFile, requireColumns } from './sheets';
+import { Contributor } from './types';
+import { Issue } from './validation';
+
+// Headers of an overrides .csv or .xlsx file. Entries in a YAML file use the keys
+// of this type instead.
+export type OverrideColumns = {
+    workItem: string;
+    who: string;
+    activity: string;
+    hours: string;
+    assignTo: string;
+    exclude: string;
+    reason: string;
+    author: string;
+};
+
+export const DEFAULT_OVERRIDE_COLUMNS: OverrideColumns = {
+    workItem: 'Work item key',
+    who: 'Who',
+    activity: 'Activity',
+    hours: 'Hours',
+    assignTo: 'Assign To',
+    exclude: 'Exclude',
+    reason: 'Reason',
+    author: 'Author',
+};
+
+export type OverrideSettings = {
+    file?: string;
+    columns: OverrideColumns;
+};
+
+export const DEFAULT_OVERRIDE_SETTINGS: OverrideSettings = {
+    columns: DEFAULT_OVERRIDE_COLUMNS,
+};
+
+// An analyst's correction to the hours attributed from one work item. It applies to
+// every contribution from the work item, or only to `who`'s when that's given.
+export type Override = {
+    workItem: string;
+    who?: string;
+    // Claim the hours under this R&DTI activity instead
+    activity?: string;
+    // The hours the contributions should total; each is scaled to match
+    hours?: number;
+    // Give the hours to this person, e.g. for work attributed to 'Unassigned'
+    assignTo?: string;
+    // Leave the contributions out of the claim
+    exclude?: boolean;
+    reason: string;
+    author: string;
+    // Where in the overrides file it came from, e.g. "row 3"
+    source: string;
+};
+
+export type AdjustmentChange = 'Activity' | 'Hours' | 'Person' | 'Excluded';
+
+// - 'Applied': the change was made
+// - 'Stale': the work item isn't in the input any more
+// - 'Not applied': the work item has no contributions in the claim to change
+export type AdjustmentStatus = 'Applied' | 'Stale' | 'Not applied';
+
+// One change an override made, with the values before and after it, for the audit log
+export type Adjustment = {
+    workItem: string;
+    who?: string;
+    change: AdjustmentChange;
+    before: string;
+    after: string;
+    reason: string;
+    author: string;
+    status: AdjustmentStatus;
+};
+
+// Read overrides from a .yaml/.yml file (a list of entries, or `overrides:` with one),
+// or from a .csv or .xlsx file (first sheet) with one override per row
+export async function readOverrides(file: string, columns: OverrideColumns, time: WorkingTime): Promise<Override[]> {
+    const overridesPath = path.resolve(file);
+    if (!fs.existsSync(overridesPath)) {
+        throw new InputError(`Overrides file not found: ${overridesPath}`);
+    }
+
+    const entries = /\.ya?ml$/i.test(overridesPath)
+        ? readYamlEntries(overridesPath)
+        : await readSheetEntries(overridesPath, columns);
+
+    const overrides: Override[] = [];
+    const problems: string[] = [];
+    for (const { source, values } of entries) {
+        const text = (field: keyof OverrideColumns) => {
+            const value = values[field];
+            return value === undefined || value === null ? '' : String(value).trim();
+        };
+
+        const workItem = text('workItem');
+        const reason = text('reason');
+        const author = text('author');
+        if (!workItem || !reason || !author) {
+            problems.push(`${source}: every override needs a work item key, a reason and an author`);
+            continue;
+        }
+
+        const exclude = toBoolean(values.exclude);
+        if (exclude === undefined) {
+            problems.push(`${source}: exclude for ${workItem} must be yes/no or true/false`);
+            continue;
+        }
+        let hours: number | undefined;
+        if (text('hours') !== '') {
+            hours = parseHours(values.hours, 'hours', time);
+            if (hours === undefined || hours < 0) {
+                problems.push(`${source}: hours for ${workItem} must be a number of hours or a duration like 1d 4h`);
+                continue;
+            }
+        }
+
+        const override: Override = {
+            workItem,
+            who: text('who') || undefined,
+            activity: text('activity') || undefined,
+            hours,
+            assignTo: text('assignTo') || undefined,
+            exclude: exclude || undefined,
+            reason,
+            author,
+            source,
+        };
+        const changes = [override.activity, override.hours, override.assignTo].filter(change => change !== undefined).length;
+        if (override.exclude && changes > 0) {
+            problems.push(`${source}: an override that excludes ${workItem} can't also change it`);
+        } else if (!override.exclude && changes === 0) {
+            problems.push(`${source}: the override for ${workItem} doesn't change anything; give an activity, hours, a person to assign to, or exclude`);
+        } else {
+            overrides.push(override);
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new InputError(`Overrides file ${overridesPath} has invalid entries:\n  ${problems.join('\n  ')}`);
+    }
+
+    return overrides;
+}
+
+// Apply the overrides in file order, each to the contributions as the ones before it
+// left them. Every change is recorded as an adjustment; overrides for work items
+// that aren't in the input are reported as stale.
+export function applyOverrides(
+    attributed: Contributor[],
+    overrides: Override[],
+    graph: TicketGraph,
+    classify: {
+        activityType: (activity: string) => string;
+        role: (who: string, date?: Date) => string;
+    }
+): { attributed: Contributor[]; adjustments: Adjustment[]; issues: Issue[] } {
+    let contributors = attributed;
+    const adjustments: Adjustment[] = [];
+    const issues: Issue[] = [];
+
+    for (const override of overrides) {
+        const matches = (contributor: Contributor) => contributor.workItem === override.workItem
+            && (!override.who || samePerson(contributor.who, override.who));
+        const matched = contributors.filter(matches);
+        const record = (change: AdjustmentChange, before: string, after: string, status: AdjustmentStatus) => adjustments.push({
+            workItem: override.workItem,
+            who: override.who,
+            change,
+            before,
+            after,
+            reason: override.reason,
+            author: override.author,
+            status,
+        });
+
+        const before = {
+            activity: distinct(matched.map(contributor => contributor.project)),
+            hours: `${roundCents(sumHours(matched))}h`,
+            who: distinct(matched.map(contributor => contributor.who)),
+        };
+
+        if (!graph.tickets.has(override.workItem) || matched.length === 0) {
+            const stale = !graph.tickets.has(override.workItem);
+            const status: AdjustmentStatus = stale ? 'Stale' : 'Not applied';
+            if (override.exclude) record('Excluded', '', 'Excluded', status);
+            if (override.assignTo) record('Person', '', override.assignTo, status);
+            if (override.activity) record('Activity', '', override.activity, status);
+            if (override.hours !== undefined) record('Hours', '', `${override.hours}h`, status);
+            issues.push({
+                severity: 'warning',
+                ticket: override.workItem,
+                check: stale ? 'Stale override' : 'Override not applied',
+                message: stale
+                    ? `The override from ${override.source} is for a work item that's no longer in the input`
+                    : `The override from ${override.source} matches no hours claimed from this work item${override.who ? ` by ${override.who}` : ''}`,
+            });
+            continue;
+        }
+
+        if (override.exclude) {
+            contributors = contributors.filter(contributor => !matches(contributor));
+            record('Excluded', `${before.hours} claimed`, 'Excluded', 'Applied');
+            continue;
+        }
+
+        // Scale each contribution by the same factor, keeping how the hours are spread
+        // across people and dates
+        const scale = override.hours !== undefined && sumHours(matched) > 0 ? override.hours / sumHours(matched) : 1;
+        const note = `adjusted by ${override.author}: ${override.reason}`;
+        contributors = contributors.map(contributor => {
+            if (!matches(contributor)) return contributor;
+            const adjusted = { ...contributor, hoursCost: contributor.hoursCost * scale };
+            if (override.assignTo) {
+                adjusted.who = override.assignTo;
+                adjusted.role = classify.role(override.assignTo, contributor.date);
+            }
+            if (override.activity) {
+                adjusted.project = override.activity;
+                adjusted.activityType = classify.activityType(override.activity);
+            }
+            adjusted.trace = [...(contributor.trace ?? []), { ticket: override.workItem, note }];
+            return adjusted;
+        });
+
+        if (override.assignTo) record('Person', before.who, override.assignTo, 'Applied');
+        if (override.activity) record('Activity', before.activity, override.activity, 'Applied');
+        if (override.hours !== undefined) record('Hours', before.hours, `${override.hours}h`, 'Applied');
+    }
+
+    return { attributed: contributors, adjustments, issues };
+}
+
+type OverrideEntry = {
+    source: string;
+    values: Partial<Record<keyof OverrideColumns, unknown>>;
+};
+
+function readYamlEntries(file: string): OverrideEntry[] {
+    let raw: unknown;
+    try {
+        raw = YAML.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new InputError(`Could not read overrides file ${file}: ${(error as Error).message}`);
+    }
+
+    const list = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>).overrides : raw;
+    if (!Array.isArray(list)) {
+        throw new InputError(`Overrides file ${file} must be a list of overrides`);
+    }
+
+    const keys = Object.keys(DEFAULT_OVERRIDE_COLUMNS);
+    return list.map((entry, index) => {
+        const source = `entry ${index + 1}`;
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+            throw new InputError(`Overrides file ${file}: ${source} must be an object`);
+        }
+        const unknown = Object.keys(entry).filter(key => !keys.includes(key));
+        if (unknown.length > 0) {
+            throw new InputError(`Overrides file ${file}: ${source} has unknown key(s) ${unknown.join(', ')} (expected ${keys.join(', ')})`);
+        }
+        return { source, values: entry };
+    });
+}
+
+async function readSheetEntries(file: string, columns: OverrideColumns): Promise<OverrideEntry[]> {
+    const sheet = await readSheetFile(file, 'Overrides file');
+    requireColumns(sheet, [columns.workItem, columns.reason, columns.author]);
+
+    const entries: OverrideEntry[] = [];
+    eachSheetRow(sheet, (cell, rowNumber) => {
+        const values: OverrideEntry['values'] = {};
+        for (const [field, header] of Object.entries(columns) as [keyof OverrideColumns, string][]) {
+            values[field] = cell(header);
+        }
+        // Skip blank rows
+        if (Object.values(values).every(value => value === null || value === undefined || String(value).trim() === '')) return;
+        entries.push({ source: `row ${rowNumber}`, values });
+    });
+    return entries;
+}
+
+// false for an empty value, undefined for one that isn't a yes or no
+function toBoolean(value: unknown): boolean | undefined {
+    if (typeof value === 'boolean') return value;
+    const text = value === null || value === undefined ? '' : String(value).trim().toLowerCase();
+    if (['', 'no', 'n', 'false', '0'].includes(text)) return false;
+    if (['yes', 'y', 'true', '1', 'x'].includes(text)) return true;
+    return undefined;
+}
+
+function samePerson(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function distinct(values: string[]): string {
+    return Array.from(new Set(values)).join(', ');
+}
+
+function sumHours(contributors: Contributor[]): number {
+    return contributors.reduce((total, contributor) => total + contributor.hoursCost, 0);
+}
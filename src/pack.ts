@@ -0,0 +1,295 @@
+import fs from 'fs';
+import path from 'path';
+import { isActivityAnchor } from './anchors';
+import { classifyActivityType } from './classify';
+import { Config } from './config';
+import { formatDate } from './periods';
+import { Analysis } from './process';
+import { roundCents } from './rates';
+import { Ticket } from './types';
+
+export type PackFormat = 'markdown' | 'html';
+
+export const PACK_FORMATS: PackFormat[] = ['markdown', 'html'];
+
+export type RegistrationPackSettings = {
+    // Headers of the MAP ticket fields holding each part of the activity's narrative
+    fields: {
+        description: string;
+        hypothesis: string;
+        outcome: string;
+    };
+    // Evidence link for a ticket, with {key} standing for its key; defaults to
+    // <jira.baseUrl>/browse/{key} when a Jira site is configured
+    ticketUrl?: string;
+};
+
+export const DEFAULT_REGISTRATION_PACK_SETTINGS: RegistrationPackSettings = {
+    fields: {
+        description: 'Description',
+        hypothesis: 'Hypothesis',
+        outcome: 'Outcome',
+    },
+};
+
+// Where a pack's tickets came from, so the pack can be traced back to its inputs
+export type PackSource = {
+    name: string;
+    // SHA-256 of the input file, when the tickets came from files
+    sha256?: string;
+};
+
+type PackIdea = {
+    key: string;
+    summary: string;
+    url?: string;
+    // Narrative sections by field header, in configured order; empty ones are left out
+    sections: [string, string][];
+};
+
+type PackTicket = {
+    key: string;
+    summary: string;
+    workType: string;
+    url?: string;
+    hours: number;
+    people: string[];
+};
+
+type PackPerson = {
+    who: string;
+    role: string;
+    hours: number;
+};
+
+// Everything in one activity's registration pack
+export type RegistrationPack = {
+    activity: string;
+    activityType: string;
+    period: string;
+    sources: PackSource[];
+    ideas: PackIdea[];
+    tickets: PackTicket[];
+    people: PackPerson[];
+    totalHours: number;
+};
+
+// One pack per activity set on a MAP ticket, sorted by activity. Nothing depends on
+// the time of the run, so the same input gives the same packs.
+export function buildRegistrationPacks(analysis: Analysis, config: Config, sources: PackSource[]): RegistrationPack[] {
+    const settings = config.registrationPack;
+    const urlTemplate = settings.ticketUrl ?? (config.jira.baseUrl ? `${config.jira.baseUrl.replace(/\/+$/, '')}/browse/{key}` : undefined);
+    const ticketUrl = (key: string) => urlTemplate?.replace(/\{key\}/g, key);
+
+    const ideasByActivity = new Map<string, Ticket[]>();
+    for (const ticket of analysis.rows) {
+        const activity = ticket['R&DTI Activity'];
+        if (!activity || !isActivityAnchor(ticket, config)) continue;
+        const ideas = ideasByActivity.get(activity);
+        if (ideas) ideas.push(ticket);
+        else ideasByActivity.set(activity, [ticket]);
+    }
+
+    const packs: RegistrationPack[] = [];
+    for (const [activity, ideas] of ideasByActivity) {
+        const contributions = analysis.attributed.filter(contributor => contributor.project === activity);
+
+        const tickets = new Map<string, PackTicket>();
+        const people = new Map<string, PackPerson>();
+        for (const contributor of contributions) {
+            const ticket = analysis.graph.tickets.get(contributor.workItem);
+            const entry: PackTicket = tickets.get(contributor.workItem) ?? {
+                key: contributor.workItem,
+                summary: ticket?.['Summary'] || '',
+                workType: ticket?.['Work type'] || '',
+                url: ticketUrl(contributor.workItem),
+                hours: 0,
+                people: [],
+            };
+            entry.hours += contributor.hoursCost;
+            if (!entry.people.includes(contributor.who)) entry.people.push(contributor.who);
+            tickets.set(contributor.workItem, entry);
+
+            const person = people.get(contributor.who) ?? { who: contributor.who, role: contributor.role, hours: 0 };
+            person.hours += contributor.hoursCost;
+            people.set(contributor.who, person);
+        }
+
+        packs.push({
+            activity,
+            activityType: classifyActivityType(activity, config.classification),
+            period: describePeriod(analysis, activity),
+            sources,
+            ideas: ideas.map(idea => ({
+                key: idea['Work item key'],
+                summary: idea['Summary'] || '',
+                url: ticketUrl(idea['Work item key']),
+                sections: Object.values(settings.fields)
+                    .map((field): [string, string] => [field, String(idea[field] ?? '').trim()])
+                    .filter(([, text]) => text !== ''),
+            })),
+            tickets: Array.from(tickets.values())
+                .map(ticket => ({ ...ticket, hours: roundCents(ticket.hours), people: ticket.people.sort() }))
+                .sort((a, b) => compareKeys(a.key, b.key)),
+            people: Array.from(people.values())
+                .map(person => ({ ...person, hours: roundCents(person.hours) }))
+                .sort((a, b) => b.hours - a.hours || a.who.localeCompare(b.who)),
+            totalHours: roundCents(contributions.reduce((total, contributor) => total + contributor.hoursCost, 0)),
+        });
+    }
+
+    return packs.sort((a, b) => a.activity.localeCompare(b.activity));
+}
+
+export function renderPackMarkdown(pack: RegistrationPack): string {
+    const lines: string[] = [];
+    const link = (key: string, url?: string) => (url ? `[${key}](${url})` : key);
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+    lines.push(`# ${pack.activity}`, '');
+    lines.push(`- **Activity type:** ${pack.activityType}`);
+    lines.push(`- **Period:** ${pack.period}`);
+    lines.push(`- **Hours:** ${pack.totalHours}`);
+    lines.push(`- **Source:** ${describeSources(pack.sources)}`);
+
+    lines.push('', '## MAP ideas');
+    for (const idea of pack.ideas) {
+        lines.push('', `### ${link(idea.key, idea.url)} ${idea.summary}`.trimEnd());
+        if (idea.sections.length === 0) lines.push('', '_No description, hypothesis or outcome recorded._');
+        for (const [field, text] of idea.sections) {
+            lines.push('', `**${field}**`, '', text);
+        }
+    }
+
+    lines.push('', '## Delivery tickets', '');
+    if (pack.tickets.length === 0) {
+        lines.push('_No hours attributed._');
+    } else {
+        lines.push('| Ticket | Summary | Work type | Hours | People |', '| --- | --- | --- | ---: | --- |');
+        for (const ticket of pack.tickets) {
+            lines.push(`| ${link(ticket.key, ticket.url)} | ${cell(ticket.summary)} | ${cell(ticket.workType)} | ${ticket.hours} | ${cell(ticket.people.join(', '))} |`);
+        }
+    }
+
+    lines.push('', '## People', '');
+    if (pack.people.length === 0) {
+        lines.push('_Nobody has hours on this activity._');
+    } else {
+        lines.push('| Who | Role | Hours |', '| --- | --- | ---: |');
+        for (const person of pack.people) {
+            lines.push(`| ${cell(person.who)} | ${cell(person.role)} | ${person.hours} |`);
+        }
+    }
+
+    lines.push('', '## Evidence', '');
+    for (const { key, url } of [...pack.ideas, ...pack.tickets]) {
+        lines.push(`- ${url ? `${key}: ${url}` : key}`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+export function renderPackHtml(pack: RegistrationPack): string {
+    const link = (key: string, url?: string) => (url ? `<a href="${escapeHtml(url)}">${escapeHtml(key)}</a>` : escapeHtml(key));
+    const paragraphs = (text: string) => text.split(/\r?\n\s*\r?\n/).map(paragraph => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, '<br>')}</p>`).join('\n');
+    const html: string[] = [];
+
+    html.push('<!DOCTYPE html>', '<html lang="en">', '<head>', '<meta charset="utf-8">', `<title>${escapeHtml(pack.activity)}</title>`);
+    html.push('<style>body{font-family:sans-serif;max-width:960px;margin:2em auto;line-height:1.4}table{border-collapse:collapse}th,td{border:1px solid #ccc;padding:4px 8px;text-align:left}td.hours{text-align:right}</style>');
+    html.push('</head>', '<body>', `<h1>${escapeHtml(pack.activity)}</h1>`, '<ul>');
+    html.push(`<li><strong>Activity type:</strong> ${escapeHtml(pack.activityType)}</li>`);
+    html.push(`<li><strong>Period:</strong> ${escapeHtml(pack.period)}</li>`);
+    html.push(`<li><strong>Hours:</strong> ${pack.totalHours}</li>`);
+    html.push(`<li><strong>Source:</strong> ${escapeHtml(describeSources(pack.sources))}</li>`);
+    html.push('</ul>', '<h2>MAP ideas</h2>');
+    for (const idea of pack.ideas) {
+        html.push(`<h3>${link(idea.key, idea.url)} ${escapeHtml(idea.summary)}</h3>`);
+        if (idea.sections.length === 0) html.push('<p><em>No description, hypothesis or outcome recorded.</em></p>');
+        for (const [field, text] of idea.sections) {
+            html.push(`<h4>${escapeHtml(field)}</h4>`, paragraphs(text));
+        }
+    }
+
+    html.push('<h2>Delivery tickets</h2>');
+    if (pack.tickets.length === 0) {
+        html.push('<p><em>No hours attributed.</em></p>');
+    } else {
+        html.push('<table>', '<tr><th>Ticket</th><th>Summary</th><th>Work type</th><th>Hours</th><th>People</th></tr>');
+        for (const ticket of pack.tickets) {
+            html.push(`<tr><td>${link(ticket.key, ticket.url)}</td><td>${escapeHtml(ticket.summary)}</td><td>${escapeHtml(ticket.workType)}</td>` +
+                `<td class="hours">${ticket.hours}</td><td>${escapeHtml(ticket.people.join(', '))}</td></tr>`);
+        }
+        html.push('</table>');
+    }
+
+    html.push('<h2>People</h2>');
+    if (pack.people.length === 0) {
+        html.push('<p><em>Nobody has hours on this activity.</em></p>');
+    } else {
+        html.push('<table>', '<tr><th>Who</th><th>Role</th><th>Hours</th></tr>');
+        for (const person of pack.people) {
+            html.push(`<tr><td>${escapeHtml(person.who)}</td><td>${escapeHtml(person.role)}</td><td class="hours">${person.hours}</td></tr>`);
+        }
+        html.push('</table>');
+    }
+
+    html.push('<h2>Evidence</h2>', '<ul>');
+    for (const { key, url } of [...pack.ideas, ...pack.tickets]) {
+        html.push(`<li>${url ? `${escapeHtml(key)}: <a href="${escapeHtml(url)}">${escapeHtml(url)}</a>` : escapeHtml(key)}</li>`);
+    }
+    html.push('</ul>', '</body>', '</html>');
+
+    return html.join('\n') + '\n';
+}
+
+// Write each pack in each format to outDir, named after the activity; returns the files written
+export function writeRegistrationPacks(packs: RegistrationPack[], outDir: string, formats: PackFormat[]): string[] {
+    fs.mkdirSync(outDir, { recursive: true });
+    const written: string[] = [];
+    const used = new Set<string>();
+
+    for (const pack of packs) {
+        // Activities that only differ in punctuation still get their own files
+        let name = slugify(pack.activity) || 'activity';
+        for (let suffix = 2; used.has(name); suffix++) name = `${slugify(pack.activity)}-${suffix}`;
+        used.add(name);
+
+        for (const format of formats) {
+            const file = path.join(outDir, `${name}.${format === 'markdown' ? 'md' : 'html'}`);
+            fs.writeFileSync(file, format === 'markdown' ? renderPackMarkdown(pack) : renderPackHtml(pack));
+            written.push(file);
+        }
+    }
+
+    return written;
+}
+
+// The claim period, or else the dates the activity's hours fall between
+function describePeriod(analysis: Analysis, activity: string): string {
+    if (analysis.period) return analysis.period.label;
+    let first: Date | undefined;
+    let last: Date | undefined;
+    for (const { project, date } of analysis.attributed) {
+        if (project !== activity || !date) continue;
+        if (!first || date < first) first = date;
+        if (!last || date > last) last = date;
+    }
+    return first && last ? `${formatDate(first)} to ${formatDate(last)}` : 'Undated';
+}
+
+function describeSources(sources: PackSource[]): string {
+    return sources.map(source => source.sha256 ? `${source.name} (SHA-256 ${source.sha256})` : source.name).join('; ');
+}
+
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// DEV-2 before DEV-10
+function compareKeys(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { numeric: true });
+}
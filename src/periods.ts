@@ -0,0 +1,195 @@
+import { TICKET_FIELDS } from './columns';
+import { Ticket } from './types';
+
+// A reporting period; `end` is exclusive
+export type Period = {
+    label: string;
+    start: Date;
+    end: Date;
+};
+
+// Ticket date fields that can date contributor hours
+export type DateField = 'resolved' | 'statusCategoryChanged' | 'created';
+
+export const DATE_FIELDS: DateField[] = ['resolved', 'statusCategoryChanged', 'created'];
+
+// How hours are dated when a ticket was open across several months:
+// - 'attribution-date': all hours land on the first available of `dateFields`
+// - 'prorate': hours are spread evenly over the days from Created to the end date
+export type BoundaryRule = 'attribution-date' | 'prorate';
+
+export type PeriodSettings = {
+    // Precedence of the date fields used as a ticket's attribution date
+    dateFields: DateField[];
+    boundaryRule: BoundaryRule;
+    // Only count hours dated inside this period, e.g. 'FY2026'
+    period?: string;
+};
+
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = {
+    dateFields: [...DATE_FIELDS],
+    boundaryRule: 'attribution-date',
+};
+
+export type TicketDates = {
+    start?: Date;
+    end?: Date;
+    // Date all of the ticket's hours are attributed to under 'attribution-date'
+    attributionDate?: Date;
+    attributionField?: DateField;
+};
+
+// A share of a ticket's hours dated into one month
+export type HoursAllocation = {
+    date?: Date;
+    hours: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Parse a period spec: 'FY2026' (1 July 2025 - 30 June 2026), 'FY2026-Q1' (Jul-Sep 2025)
+// or a custom inclusive range '2025-07-01..2025-12-31'
+export function parsePeriod(spec: string): Period | undefined {
+    const text = spec.trim();
+
+    const fy = /^FY(\d{4})(?:-?Q([1-4]))?$/i.exec(text);
+    if (fy) {
+        const year = Number(fy[1]);
+        if (!fy[2]) {
+            return { label: `FY${year}`, start: utcDate(year - 1, 6, 1), end: utcDate(year, 6, 1) };
+        }
+        const quarter = Number(fy[2]);
+        const start = utcDate(year - 1, 6 + (quarter - 1) * 3, 1);
+        return { label: `FY${year} Q${quarter}`, start, end: addMonths(start, 3) };
+    }
+
+    const range = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/.exec(text);
+    if (range) {
+        const start = new Date(`${range[1]}T00:00:00Z`);
+        const last = new Date(`${range[2]}T00:00:00Z`);
+        if (isNaN(start.getTime()) || isNaN(last.getTime()) || last < start) return undefined;
+        return { label: `${range[1]} to ${range[2]}`, start, end: new Date(last.getTime() + DAY_MS) };
+    }
+
+    return undefined;
+}
+
+export function isInPeriod(date: Date, period: Period): boolean {
+    return period.start <= date && date < period.end;
+}
+
+// Australian income year: FY2026 runs from 1 July 2025 to 30 June 2026
+export function financialYear(date: Date): number {
+    return date.getUTCMonth() >= 6 ? date.getUTCFullYear() + 1 : date.getUTCFullYear();
+}
+
+export function monthLabel(date: Date): string {
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+export function quarterLabel(date: Date): string {
+    const quarter = Math.floor(((date.getUTCMonth() + 6) % 12) / 3) + 1;
+    return `FY${financialYear(date)} Q${quarter}`;
+}
+
+// Parse a date as it appears in an export: ISO dates, Excel dates read as text, and
+// Jira's "03/Jul/25 10:15 AM" or "03/07/2025" formats. Times are dropped.
+export function parseTicketDate(value: string | undefined): Date | undefined {
+    const text = (value || '').trim();
+    if (!text) return undefined;
+
+    const jira = /^(\d{1,2})\/([A-Za-z]{3})\/(\d{2,4})/.exec(text);
+    if (jira) {
+        const month = MONTHS.indexOf(jira[2].toLowerCase());
+        if (month >= 0) return utcDate(fullYear(jira[3]), month, Number(jira[1]));
+    }
+
+    const dayFirst = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/.exec(text);
+    if (dayFirst) return utcDate(fullYear(dayFirst[3]), Number(dayFirst[2]) - 1, Number(dayFirst[1]));
+
+    const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+    if (iso) return utcDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+    const parsed = new Date(text);
+    if (isNaN(parsed.getTime())) return undefined;
+    return utcDate(parsed.getUTCFullYear(), parsed.getUTCMonth(), parsed.getUTCDate());
+}
+
+export function getTicketDates(ticket: Ticket, settings: PeriodSettings): TicketDates {
+    const dates: TicketDates = {};
+
+    for (const field of settings.dateFields) {
+        const date = parseTicketDate(ticket[TICKET_FIELDS[field].field]);
+        if (date) {
+            dates.attributionDate = date;
+            dates.attributionField = field;
+            break;
+        }
+    }
+
+    dates.start = parseTicketDate(ticket[TICKET_FIELDS.created.field]);
+    dates.end = parseTicketDate(ticket[TICKET_FIELDS.resolved.field]) ?? parseTicketDate(ticket[TICKET_FIELDS.statusCategoryChanged.field]);
+    if (dates.start && dates.end && dates.end < dates.start) {
+        dates.end = dates.start;
+    }
+
+    return dates;
+}
+
+// Date a ticket's hours according to the boundary rule. Prorating needs both a start and
+// an end date; tickets without them fall back to the attribution date.
+export function allocateHours(hours: number, dates: TicketDates, rule: BoundaryRule): HoursAllocation[] {
+    if (rule === 'prorate' && dates.start && dates.end) {
+        const totalDays = daysBetween(dates.start, dates.end) + 1;
+        const allocations: HoursAllocation[] = [];
+
+        let segmentStart = dates.start;
+        while (segmentStart <= dates.end) {
+            const nextMonth = utcDate(segmentStart.getUTCFullYear(), segmentStart.getUTCMonth() + 1, 1);
+            const segmentEnd = nextMonth <= dates.end ? new Date(nextMonth.getTime() - DAY_MS) : dates.end;
+            const days = daysBetween(segmentStart, segmentEnd) + 1;
+            allocations.push({ date: segmentStart, hours: roundHours(hours * days / totalDays) });
+            segmentStart = nextMonth;
+        }
+        // Give any rounding difference to the last month so the shares add up exactly
+        const allocated = allocations.reduce((sum, allocation) => sum + allocation.hours, 0);
+        allocations[allocations.length - 1].hours = roundHours(allocations[allocations.length - 1].hours + hours - allocated);
+        return allocations;
+    }
+
+    return [{ date: dates.attributionDate, hours }];
+}
+
+// Whether a ticket was open across a quarter boundary or across the edge of the
+// claim period; these are listed in the period boundary report
+export function spansBoundary(dates: TicketDates, period?: Period): boolean {
+    if (!dates.start || !dates.end) return false;
+    if (quarterLabel(dates.start) !== quarterLabel(dates.end)) return true;
+    return !!period && isInPeriod(dates.start, period) !== isInPeriod(dates.end, period);
+}
+
+export function formatDate(date: Date | undefined): string {
+    return date ? date.toISOString().slice(0, 10) : '';
+}
+
+function roundHours(hours: number): number {
+    return Math.round(hours * 100) / 100;
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+    return new Date(Date.UTC(year, month, day));
+}
+
+function addMonths(date: Date, months: number): Date {
+    return utcDate(date.getUTCFullYear(), date.getUTCMonth() + months, date.getUTCDate());
+}
+
+function daysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+function fullYear(year: string): number {
+    return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
@@ -0,0 +1,240 @@
+import path from 'path';
+import { aggregateContributors, findUncosted } from './aggregate';
+import { attributeContributors, BoundaryTicket, getOwnHours, getWorklogHours, loggedHoursByTicket, reachedTickets, sumWIPHours } from './attribute';
+import { compareCapacity, PersonCapacity } from './capacity';
+import { classifyActivityType, classifyRole } from './classify';
+import { Config } from './config';
+import { Exclusion } from './eligibility';
+import { UsageError, ValidationError } from './errors';
+import { Derivation } from './explain';
+import { TicketGraph } from './graph';
+import { TicketHours } from './hours';
+import { ActivityConflict } from './inheritance';
+import { inputFormat, SheetColumn } from './input';
+import { AnalysisOptions, describeSource, LoadedInputs, loadInputs, singleInputFile } from './load';
+import { SILENT } from './log';
+import { Adjustment, applyOverrides } from './overrides';
+import { buildJsonOutput, outputFormat, writeCsvSheets, writeJsonOutput } from './output';
+import { Period } from './periods';
+import { findRate, RateCard, roundCents } from './rates';
+import { renderWorkbook } from './render';
+import { isExcluded, resolveTickets } from './resolve';
+import { buildSnapshot, defaultSnapshotFile, writeSnapshot } from './snapshot';
+import { Contributor, Ticket } from './types';
+import { countErrors, Issue, reconcileHours, validateAttribution, validateClassification } from './validation';
+
+export type ProcessOptions = AnalysisOptions & {
+    // Output file; its extension picks the format (.xlsx, .csv, .json or .ndjson)
+    out: string;
+    // Fail the run when the validation pass finds errors
+    strict?: boolean;
+    // Add a Provenance column with each contribution's derivation to 'Transformed Data'
+    provenance?: boolean;
+    // Where to save the run's snapshot for `diff`; defaults to <out>.snapshot.json
+    snapshot?: string;
+    // Write into a copy of the input workbook instead of a new 'Results' sheet
+    annotate?: boolean;
+};
+
+// Everything derived from an export: the tickets with their R&DTI activities and WIP
+// hours filled in, the contributions attributed from them, and how each was derived
+export type Analysis = {
+    columns: SheetColumn[];
+    rows: Ticket[];
+    graph: TicketGraph;
+    rateCard?: RateCard;
+    period?: Period;
+    // Contributions claimed in the period, dated, with the analyst overrides applied
+    attributed: Contributor[];
+    // Every change the analyst overrides made, in file order; undefined without an
+    // overrides file
+    adjustments?: Adjustment[];
+    issues: Issue[];
+    boundaryTickets: Map<string, BoundaryTicket>;
+    outsidePeriodHours: number;
+    reconciliation: ReturnType<typeof reconcileHours>;
+    // Each person's R&D hours against their capacity, when a capacity file is given
+    capacity?: PersonCapacity[];
+    // Tickets the eligibility rules leave out of the claim, in row order
+    excluded: ExcludedTicket[];
+    // Each ticket's own hours and the field they were read from
+    hours: Map<Ticket, TicketHours>;
+    // Worklog totals by ticket key, for tickets whose hours come from worklogs
+    worklogHours: Map<string, number>;
+    // Tickets whose R&DTI activity set in the export differs from their ancestors'
+    activityConflicts: ActivityConflict[];
+    // Tickets given an R&DTI activity from linked MAP tickets or their ancestors
+    processedCount: number;
+    // MAP tickets given a Sum of WIP hours
+    mapTicketsProcessed: number;
+    derivation: Derivation;
+};
+
+// A ticket left out of the claim, with the hours logged on it
+export type ExcludedTicket = Exclusion & {
+    ticket: Ticket;
+    hours: number;
+};
+
+// Read an export and everything that goes with it, and analyse it
+export async function analyseTickets(options: AnalysisOptions, config: Config): Promise<Analysis> {
+    const analysis = analyseInputs(await loadInputs(options, config), config);
+    (options.log ?? SILENT).info(`✅ Processed ${analysis.mapTicketsProcessed} MAP tickets with R&DTI Activities for WIP hours calculation`);
+    return analysis;
+}
+
+// Fill in R&DTI activities and WIP hours for the tickets and attribute their hours to
+// people, without reading or writing anything. The rows are updated in place.
+export function analyseInputs(inputs: LoadedInputs, config: Config): Analysis {
+    const { columns, rows, period, rateCard, capacity, overrides } = inputs;
+    const resolved = resolveTickets(inputs, config);
+    const { model, activityConflicts, processedCount } = resolved;
+    const issues = [...(inputs.issues ?? []), ...resolved.issues];
+
+    const mapTicketsProcessed = sumWIPHours(model);
+    const attribution = attributeContributors(model, period, rateCard);
+    // Problems sharing tickets between MAP tickets turn up while attributing
+    issues.push(...model.anchorIssues);
+
+    // Analysts' corrections go on top of the computed attribution, before it's checked
+    const overridden = applyOverrides(attribution.attributed, overrides ?? [], model.graph, {
+        activityType: activity => classifyActivityType(activity, config.classification),
+        role: (who, date) => inputs.roster || !rateCard ? classifyRole(who, inputs.roster) : classifyRole(who, inputs.roster, findRate(rateCard, who, date)?.role),
+    });
+    const attributed = overridden.attributed;
+    issues.push(...overridden.issues);
+
+    const worklogHoursByTicket = new Map<string, number>();
+    for (const ticket of rows) {
+        const worklogHours = getWorklogHours(model, ticket);
+        if (worklogHours !== undefined) worklogHoursByTicket.set(ticket['Work item key'], worklogHours);
+    }
+    // Excluded tickets are reported on their own sheet rather than as unclaimed hours
+    const claimable = rows.filter(ticket => !isExcluded(model, ticket));
+    const claimableHours = new Map(claimable.map(ticket => [ticket['Work item key'], getWorklogHours(model, ticket) ?? getOwnHours(model, ticket)]));
+    issues.push(...validateAttribution(claimable, attributed, config, claimableHours, reachedTickets(model)));
+    issues.push(...validateClassification(attributed));
+
+    const loggedByTicket = loggedHoursByTicket(model);
+    const reconciliation = reconcileHours(loggedByTicket, applyToTotals(attribution.attributedByTicket, attribution.attributed, attributed));
+    issues.push(...reconciliation.issues);
+
+    // Flag anyone attributed more hours than they were paid for
+    let personCapacity: PersonCapacity[] | undefined;
+    if (capacity) {
+        const comparison = compareCapacity(capacity, attributed, period, config.capacity, config.hoursPerDay);
+        personCapacity = comparison.people;
+        issues.push(...comparison.issues);
+    }
+
+    const excluded: ExcludedTicket[] = rows
+        .filter(ticket => isExcluded(model, ticket))
+        .map(ticket => ({ ticket, hours: loggedByTicket.get(ticket['Work item key']) ?? 0, ...model.exclusions.get(ticket['Work item key'])! }));
+
+    return {
+        columns,
+        rows,
+        graph: model.graph,
+        rateCard,
+        period,
+        attributed,
+        adjustments: overrides ? overridden.adjustments : undefined,
+        issues,
+        boundaryTickets: attribution.boundaryTickets,
+        outsidePeriodHours: attribution.outsidePeriodHours,
+        reconciliation,
+        capacity: personCapacity,
+        excluded,
+        hours: model.hours,
+        worklogHours: worklogHoursByTicket,
+        activityConflicts,
+        processedCount,
+        mapTicketsProcessed,
+        derivation: model.derivation,
+    };
+}
+
+// Hours attributed to each work item with the overrides applied. The overrides only
+// change the contributions in the period, so the hours outside it stay as they were.
+function applyToTotals(totals: Map<string, number>, before: Contributor[], after: Contributor[]): Map<string, number> {
+    const adjusted = new Map(totals);
+    const add = (contributor: Contributor, sign: number) =>
+        adjusted.set(contributor.workItem, (adjusted.get(contributor.workItem) ?? 0) + sign * contributor.hoursCost);
+    before.forEach(contributor => add(contributor, -1));
+    after.forEach(contributor => add(contributor, 1));
+    return adjusted;
+}
+
+// Fill in R&DTI activities and WIP hours for the tickets in an export and write
+// the results workbook
+export async function processWorkbook(options: ProcessOptions, config: Config): Promise<void> {
+    const log = options.log ?? SILENT;
+    const inputFile = singleInputFile(options);
+    const format = outputFormat(options.out);
+    if (options.annotate && (inputFile === undefined || inputFormat(inputFile) !== 'xlsx' || format !== 'xlsx')) {
+        throw new UsageError('--annotate writes into a copy of the input workbook, so it needs a single .xlsx --input file and an .xlsx --out file');
+    }
+    const analysis = await analyseTickets(options, config);
+    const { rateCard, period, attributed, adjustments, issues, outsidePeriodHours, reconciliation, capacity, excluded, activityConflicts, processedCount } = analysis;
+
+    if (format === 'xlsx' || format === 'csv') {
+        const outWorkbook = await renderWorkbook(analysis, config, {
+            provenance: options.provenance,
+            annotate: options.annotate ? { input: inputFile!, sheet: options.sheet } : undefined,
+            log,
+        });
+        if (format === 'xlsx') {
+            await outWorkbook.xlsx.writeFile(path.resolve(options.out));
+            log.info(`✅ File saved to ${options.out}`);
+        } else {
+            const files = await writeCsvSheets(outWorkbook, options.out);
+            log.info(`✅ Saved ${files.length} sheets as CSV files: ${files.map(file => path.basename(file)).join(', ')}`);
+        }
+    } else {
+        writeJsonOutput(options.out, format, buildJsonOutput(analysis, describeSource(options, config)));
+        log.info(`✅ File saved to ${options.out}`);
+    }
+    if (rateCard) {
+        for (const [who, missing] of findUncosted(attributed, rateCard)) {
+            log.warn(`⚠️ No rate for '${who}': ${missing.hours} hours left uncosted`);
+        }
+    }
+    const snapshotFile = options.snapshot ?? defaultSnapshotFile(options.out);
+    writeSnapshot(snapshotFile, buildSnapshot(analysis, describeSource(options, config), config));
+    log.info(`✅ Snapshot saved to ${snapshotFile}`);
+    log.info(`✅ Updated ${processedCount} rows with R&DTI Activity from linked MAP tickets or their parents`);
+    if (activityConflicts.length > 0) {
+        log.warn(`⚠️ ${activityConflicts.length} tickets have an R&DTI Activity that differs from their parents'; see the '${config.sheets.activityConflicts}' sheet`);
+    }
+    log.info(`✅ Created transformed data sheet with ${attributed.length} individual contributors`);
+    log.info(`✅ Created project summary sheet with ${aggregateContributors(attributed).length} aggregated contributors`);
+    log.info(`✅ Attributed ${roundCents(reconciliation.attributedHours)} of ${roundCents(reconciliation.loggedHours)} logged hours`);
+    if (excluded.length > 0) {
+        const excludedHours = excluded.reduce((total, item) => total + item.hours, 0);
+        log.info(`✅ Excluded ${excluded.length} tickets with ${roundCents(excludedHours)} logged hours; see the '${config.sheets.excluded}' sheet`);
+    }
+    const applied = (adjustments ?? []).filter(adjustment => adjustment.status === 'Applied').length;
+    if (applied > 0) {
+        log.info(`✅ Applied ${applied} override changes; see the '${config.sheets.adjustments}' sheet`);
+    }
+    const unapplied = (adjustments ?? []).length - applied;
+    if (unapplied > 0) {
+        log.warn(`⚠️ Couldn't apply ${unapplied} override changes, as they're stale or match no claimed hours; see the '${config.sheets.adjustments}' sheet`);
+    }
+    const overCapacity = capacity?.filter(person => person.overCapacity) ?? [];
+    if (overCapacity.length > 0) {
+        const who = overCapacity.length === 1 ? '1 person is' : `${overCapacity.length} people are`;
+        log.warn(`⚠️ ${who} attributed more hours than their capacity; see the '${config.sheets.capacity}' sheet`);
+    }
+    const errorCount = countErrors(issues);
+    if (issues.length > 0) {
+        log.warn(`⚠️ Found ${errorCount} errors and ${issues.length - errorCount} warnings; see the '${config.sheets.issues}' sheet`);
+    }
+    if (period) {
+        log.info(`✅ Claimed hours dated ${period.label}; left out ${roundCents(outsidePeriodHours)} hours dated outside it or undated`);
+    }
+
+    if (options.strict && errorCount > 0) {
+        throw new ValidationError(`Strict mode: ${errorCount} data-quality errors found; see the '${config.sheets.issues}' sheet in ${options.out}`);
+    }
+}
@@ -0,0 +1,124 @@
+import ExcelJS from 'exceljs';
+import { eachSheetRow, normalizePerson, readSheetFile, rejectInvalidRows, requireColumns, toDateCell, toNumberCell } from './sheets';
+
+export type RateCardColumns = {
+    person: string;
+    role: string;
+    hourlyRate: string;
+    onCostRate: string;
+    effectiveFrom: string;
+    effectiveTo: string;
+};
+
+export const DEFAULT_RATE_CARD_COLUMNS: RateCardColumns = {
+    person: 'Person',
+    role: 'Role',
+    hourlyRate: 'Hourly Rate',
+    onCostRate: 'On-cost Rate',
+    effectiveFrom: 'Effective From',
+    effectiveTo: 'Effective To',
+};
+
+export type RateCardEntry = {
+    person: string;
+    role?: string;
+    hourlyRate: number;
+    // On-costs (super, payroll tax, ...) as a fraction of labour cost, e.g. 0.15
+    onCostRate: number;
+    // Inclusive date range the rate applies to; open-ended when missing
+    effectiveFrom?: Date;
+    effectiveTo?: Date;
+};
+
+// Rate card entries keyed by normalized person name
+export type RateCard = Map<string, RateCardEntry[]>;
+
+export type ContributorCost = {
+    role?: string;
+    hourlyRate: number;
+    labourCost: number;
+    onCost: number;
+};
+
+// Read a rate card from a .csv or .xlsx file (first sheet), one row per person and rate period
+export async function readRateCard(file: string, columns: RateCardColumns): Promise<RateCard> {
+    const sheet = await readSheetFile(file, 'Rate card');
+    requireColumns(sheet, [columns.person, columns.hourlyRate]);
+
+    const card: RateCard = new Map();
+    const problems: string[] = [];
+
+    eachSheetRow(sheet, (cell, rowNumber) => {
+        const person = String(cell(columns.person) ?? '').trim();
+        if (!person) return;
+
+        const hourlyRate = toNumberCell(cell(columns.hourlyRate));
+        const onCostRate = toRate(cell(columns.onCostRate));
+        const effectiveFrom = toDateCell(cell(columns.effectiveFrom));
+        const effectiveTo = endOfDay(toDateCell(cell(columns.effectiveTo)));
+
+        if (hourlyRate === undefined || hourlyRate === null || hourlyRate < 0) {
+            problems.push(`row ${rowNumber}: invalid hourly rate for ${person}`);
+            return;
+        }
+        if (onCostRate === null || effectiveFrom === null || effectiveTo === null) {
+            problems.push(`row ${rowNumber}: invalid on-cost rate or effective date for ${person}`);
+            return;
+        }
+
+        const role = String(cell(columns.role) ?? '').trim();
+        const entries = card.get(normalizePerson(person)) ?? [];
+        entries.push({ person, role: role || undefined, hourlyRate, onCostRate: onCostRate ?? 0, effectiveFrom, effectiveTo });
+        card.set(normalizePerson(person), entries);
+    });
+
+    rejectInvalidRows(sheet, problems);
+    return card;
+}
+
+// Find the rate for a person. With a date, the entry whose effective range covers it;
+// without one, the entry that became effective most recently.
+export function findRate(card: RateCard, who: string, date?: Date): RateCardEntry | undefined {
+    const entries = card.get(normalizePerson(who));
+    if (!entries || entries.length === 0) return undefined;
+
+    if (date) {
+        return entries.find(entry =>
+            (!entry.effectiveFrom || entry.effectiveFrom <= date) &&
+            (!entry.effectiveTo || date <= entry.effectiveTo)
+        );
+    }
+
+    return [...entries].sort((a, b) => (b.effectiveFrom?.getTime() ?? 0) - (a.effectiveFrom?.getTime() ?? 0))[0];
+}
+
+export function costHours(card: RateCard, who: string, hours: number, date?: Date): ContributorCost | undefined {
+    const rate = findRate(card, who, date);
+    if (!rate) return undefined;
+
+    const labourCost = roundCents(hours * rate.hourlyRate);
+    return {
+        role: rate.role,
+        hourlyRate: rate.hourlyRate,
+        labourCost,
+        onCost: roundCents(labourCost * rate.onCostRate),
+    };
+}
+
+export function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+// On-cost rates can be written as a fraction (0.15) or a percentage ("15%" or 15)
+function toRate(value: ExcelJS.CellValue): number | undefined | null {
+    if (value === null || value === undefined || String(value).trim() === '') return undefined;
+    const text = String(value).trim();
+    const parsed = toNumberCell(text.replace('%', ''));
+    if (parsed === undefined || parsed === null || parsed < 0) return null;
+    return text.endsWith('%') || parsed > 1 ? parsed / 100 : parsed;
+}
+
+// Effective-to dates are inclusive of the whole day
+function endOfDay(date: Date | undefined | null): Date | undefined | null {
+    return date ? new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1) : date;
+}
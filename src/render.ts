@@ -0,0 +1,276 @@
+import ExcelJS from 'exceljs';
+import { aggregateContributors, breakdownHours, findUncosted, summaryCost, summaryKey, totalByActivity } from './aggregate';
+import { Config } from './config';
+import { formatProvenance } from './explain';
+import { Logger } from './log';
+import { formatDate, monthLabel, quarterLabel } from './periods';
+import { Analysis } from './process';
+import { ContributorCost, costHours, roundCents } from './rates';
+import { annotateInputWorkbook, styleOutputSheet } from './workbook';
+
+export type RenderOptions = {
+    // Add a Provenance column with each contribution's derivation to 'Transformed Data'
+    provenance?: boolean;
+    // Write into a copy of this input workbook instead of a new 'Results' sheet
+    annotate?: {
+        input: string;
+        sheet?: string;
+    };
+    log?: Logger;
+};
+
+// Build the output workbook: the tickets with their activities and WIP hours, the
+// attributed contributions, their summaries, and the report sheets
+export async function renderWorkbook(analysis: Analysis, config: Config, options: RenderOptions = {}): Promise<ExcelJS.Workbook> {
+    const { columns, rows, graph, rateCard, attributed, adjustments, issues, boundaryTickets, capacity, excluded, activityConflicts } = analysis;
+
+    // Write output, either into a copy of the input workbook or into a new one
+    let outWorkbook: ExcelJS.Workbook;
+    if (options.annotate) {
+        outWorkbook = (await annotateInputWorkbook(analysis, options.annotate.input, options.annotate.sheet, config, options.log)).workbook;
+    } else {
+        outWorkbook = new ExcelJS.Workbook();
+        const outSheet = outWorkbook.addWorksheet(config.sheets.results);
+
+        // Make sure to include the new "Sum of WIP hours" column, and each ticket's own
+        // hours with the worklogs or field they came from
+        const columnOrder = [...columns, { header: 'Sum of WIP hours', field: 'Sum of WIP hours' }];
+        outSheet.addRow([...columnOrder.map(column => column.header), 'Hours', 'Hours Source']); // header
+
+        rows.forEach(row => {
+            const values = columnOrder.map(column => row[column.field] || '');
+            const worklogHours = analysis.worklogHours.get(row['Work item key']);
+            const own = analysis.hours.get(row)!;
+            outSheet.addRow([...values, roundCents(worklogHours ?? own.hours), worklogHours !== undefined ? 'Worklogs' : own.source ?? '']);
+        });
+    }
+    // Sheets from the input workbook keep their own formatting
+    const inputSheets = new Set(options.annotate ? outWorkbook.worksheets : []);
+
+    // Create new sheet with transformed data
+    const transformedSheet = outWorkbook.addWorksheet(config.sheets.transformed);
+
+    // With a rate card, Hours/Cost is split into hours and dollar columns
+    const hoursHeaders = rateCard ? ['Hours', 'Hourly Rate', 'Labour Cost', 'On-cost'] : ['Hours/Cost'];
+    function hoursValues(hours: number, cost: ContributorCost | undefined): (number | string)[] {
+        if (!rateCard) return [hours];
+        return [hours, cost?.hourlyRate ?? '', cost?.labourCost ?? '', cost?.onCost ?? ''];
+    }
+
+    // Date columns and period sheets only make sense when the export has dates
+    const dated = attributed.some(contributor => contributor.date);
+
+    // Add headers for the new sheet
+    // Method says how each row's hours were attributed: from worklogs, or by the mob or
+    // assignee fallback for tickets without worklogs
+    const transformedHeaders = ['Project', 'Who', 'Role', 'Activity Type', ...hoursHeaders, 'Phase', 'Work Item', ...(dated ? ['Date'] : []), 'Method', ...(options.provenance ? ['Provenance'] : [])];
+    transformedSheet.addRow(transformedHeaders);
+
+    for (const contributor of attributed) {
+        const cost = rateCard ? costHours(rateCard, contributor.who, contributor.hoursCost, contributor.date) : undefined;
+        transformedSheet.addRow([
+            contributor.project,
+            contributor.who,
+            contributor.role,
+            contributor.activityType,
+            ...hoursValues(contributor.hoursCost, cost),
+            contributor.phase,
+            contributor.workItem,
+            ...(dated ? [formatDate(contributor.date)] : []),
+            contributor.method ?? '',
+            ...(options.provenance ? [formatProvenance(contributor)] : [])
+        ]);
+    }
+
+    // Create aggregated summary sheet
+    const summarySheet = outWorkbook.addWorksheet(config.sheets.summary);
+
+    // Add headers for the summary sheet (same as transformed data)
+    const summaryHeaders = ['Project', 'Who', 'Role', 'Activity Type', ...hoursHeaders, 'Phase', 'Work Item'];
+    summarySheet.addRow(summaryHeaders);
+
+    // Add the contributors aggregated by Project + Who to the summary sheet
+    const summaries = aggregateContributors(attributed, rateCard);
+    for (const data of summaries) {
+        summarySheet.addRow([
+            data.project,
+            data.who,
+            data.role,
+            data.activityType,
+            ...hoursValues(data.totalHours, summaryCost(data)),
+            data.phase,
+            Array.from(data.workItems).join(', ')
+        ]);
+    }
+
+    if (dated) {
+        // Per-month and per-quarter hours for each Project + Who
+        const breakdowns: [string, (date: Date) => string][] = [
+            [config.sheets.monthly, monthLabel],
+            [config.sheets.quarterly, quarterLabel],
+        ];
+        for (const [sheetName, labelFor] of breakdowns) {
+            const breakdownSheet = outWorkbook.addWorksheet(sheetName);
+            const breakdown = breakdownHours(attributed, labelFor);
+
+            breakdownSheet.addRow(['Project', 'Who', ...breakdown.labels, 'Total']);
+            for (const data of summaries) {
+                const byLabel = breakdown.hours.get(summaryKey(data.project, data.who))!;
+                breakdownSheet.addRow([
+                    data.project,
+                    data.who,
+                    ...breakdown.labels.map(label => byLabel.get(label) ?? 0),
+                    data.totalHours
+                ]);
+            }
+        }
+
+        // Tickets open across a period boundary and how their hours were dated
+        const boundarySheet = outWorkbook.addWorksheet(config.sheets.periodBoundaries);
+        boundarySheet.addRow(['Work Item', 'Created', 'Ended', 'Attribution Date', 'Date Field', 'Hours', 'Claimed Hours', 'Rule Applied']);
+        for (const [workItem, boundary] of boundaryTickets) {
+            const { dates } = boundary;
+            const rule = config.periods.boundaryRule === 'prorate'
+                ? `Hours spread evenly over the days from ${formatDate(dates.start)} to ${formatDate(dates.end)}, dated into each month`
+                : `All hours dated ${formatDate(dates.attributionDate)} (${dates.attributionField})`;
+            boundarySheet.addRow([
+                workItem,
+                formatDate(dates.start),
+                formatDate(dates.end),
+                formatDate(dates.attributionDate),
+                dates.attributionField ?? '',
+                boundary.hours,
+                boundary.claimedHours,
+                rule
+            ]);
+        }
+    }
+
+    if (rateCard) {
+        // Per-activity cost totals, followed by the people that couldn't be costed
+        const costSheet = outWorkbook.addWorksheet(config.sheets.activityCosts);
+        costSheet.addRow(['Project', 'Activity Type', 'Hours', 'Costed Hours', 'Labour Cost', 'On-cost', 'Total Cost']);
+
+        for (const [project, totals] of totalByActivity(summaries)) {
+            costSheet.addRow([
+                project,
+                totals.activityType,
+                totals.hours,
+                totals.costedHours,
+                roundCents(totals.labourCost),
+                roundCents(totals.onCost),
+                roundCents(totals.labourCost + totals.onCost)
+            ]);
+        }
+
+        const uncosted = findUncosted(attributed, rateCard);
+        costSheet.addRow([]);
+        costSheet.addRow(['Warnings']);
+        costSheet.addRow(['Who', 'Uncosted Hours', 'Work Items', 'Explanation']);
+        if (uncosted.size === 0) {
+            costSheet.addRow(['None - every contributor has a rate card entry']);
+        }
+        for (const [who, missing] of uncosted) {
+            costSheet.addRow([
+                who,
+                missing.hours,
+                Array.from(missing.workItems).join(', '),
+                who === 'Unassigned'
+                    ? 'Hours logged without an assignee or mob; assign them to a person to cost them'
+                    : 'No rate card entry for this person'
+            ]);
+        }
+    }
+
+    if (capacity) {
+        // Each person's R&D share of the hours they were paid for
+        const capacitySheet = outWorkbook.addWorksheet(config.sheets.capacity);
+        capacitySheet.addRow(['Who', 'Available Hours', 'R&D Hours', 'R&D %', 'Non-R&D Hours', 'Over Capacity', 'Basis']);
+        for (const person of capacity) {
+            const available = person.availableHours;
+            capacitySheet.addRow([
+                person.who,
+                available ?? '',
+                roundCents(person.rdHours),
+                available ? roundCents((person.rdHours / available) * 100) : '',
+                available !== undefined ? roundCents(Math.max(0, available - person.rdHours)) : '',
+                person.overCapacity ? 'Yes' : '',
+                person.basis
+            ]);
+        }
+    }
+
+    // Tickets left out by the eligibility rules, with the rule that matched each one
+    const eligibilityRules = config.eligibility.include.length + config.eligibility.exclude.length;
+    if (eligibilityRules > 0) {
+        const excludedSheet = outWorkbook.addWorksheet(config.sheets.excluded);
+        excludedSheet.addRow(['Work Item', 'Summary', 'Work Type', 'Status', 'R&DTI Activity', 'Logged Hours', 'Rule', 'Reason']);
+        if (excluded.length === 0) {
+            excludedSheet.addRow(['None', '', '', '', '', '', '', 'No ticket matched the eligibility rules']);
+        }
+        for (const { ticket, hours, rule, reason } of excluded) {
+            excludedSheet.addRow([
+                ticket['Work item key'],
+                ticket['Summary'] || '',
+                ticket['Work type'] || '',
+                ticket['Status'] || '',
+                ticket['R&DTI Activity'] || '',
+                hours,
+                rule,
+                reason
+            ]);
+        }
+    }
+
+    // Activities set in the export that differ from the ones their ancestors pass down
+    const conflictsSheet = outWorkbook.addWorksheet(config.sheets.activityConflicts);
+    conflictsSheet.addRow(['Work Item', 'Summary', 'Set In Export', 'Inherited', 'Inherited From', 'Used']);
+    if (activityConflicts.length === 0) {
+        conflictsSheet.addRow(['None', '', '', '', '', 'No activity set in the export differs from its parents\'']);
+    }
+    for (const conflict of activityConflicts) {
+        conflictsSheet.addRow([
+            conflict.ticket,
+            graph.tickets.get(conflict.ticket)?.['Summary'] || '',
+            conflict.explicit,
+            conflict.inherited,
+            conflict.inheritedFrom,
+            conflict.used
+        ]);
+    }
+
+    // Audit log of the analyst overrides, with each change's values before and after it
+    if (adjustments) {
+        const adjustmentsSheet = outWorkbook.addWorksheet(config.sheets.adjustments);
+        adjustmentsSheet.addRow(['Work Item', 'Who', 'Change', 'Before', 'After', 'Reason', 'Author', 'Status']);
+        if (adjustments.length === 0) {
+            adjustmentsSheet.addRow(['None', '', '', '', '', 'The overrides file has no overrides', '', '']);
+        }
+        for (const adjustment of adjustments) {
+            adjustmentsSheet.addRow([
+                adjustment.workItem,
+                adjustment.who ?? '',
+                adjustment.change,
+                adjustment.before,
+                adjustment.after,
+                adjustment.reason,
+                adjustment.author,
+                adjustment.status
+            ]);
+        }
+    }
+
+    // Data-quality problems, errors first
+    const issuesSheet = outWorkbook.addWorksheet(config.sheets.issues);
+    issuesSheet.addRow(['Severity', 'Ticket', 'Check', 'Explanation']);
+    if (issues.length === 0) {
+        issuesSheet.addRow(['None', '', '', 'No data-quality issues found']);
+    }
+    const severityOrder = { error: 0, warning: 1 };
+    for (const issue of [...issues].sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity])) {
+        issuesSheet.addRow([issue.severity, issue.ticket, issue.check, issue.message]);
+    }
+
+    outWorkbook.worksheets.filter(sheet => !inputSheets.has(sheet)).forEach(styleOutputSheet);
+    return outWorkbook;
+}
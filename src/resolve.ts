@@ -0,0 +1,224 @@
+import { isActivityAnchor } from './anchors';
+import { Roster } from './classify';
+import { Config } from './config';
+import { Exclusion, findExclusions } from './eligibility';
+import { Derivation } from './explain';
+import { buildTicketGraph, TicketGraph } from './graph';
+import { readTicketHours, TicketHours } from './hours';
+import { ActivityConflict, resolveActivities } from './inheritance';
+import { AnchorResolution, AnchorShare, describeSplit, resolveAnchorShares, sharedActivity } from './linkPolicy';
+import { LoadedInputs } from './load';
+import { roundCents } from './rates';
+import { getParentKey } from './tickets';
+import { Contributor, Ticket } from './types';
+import { Issue, validateTickets } from './validation';
+import { sumWorklogHours, Worklog } from './worklogs';
+
+// The tickets of a run with everything attribution reads from them. The caches are
+// filled in as tickets are looked at.
+export type TicketModel = {
+    config: Config;
+    rows: Ticket[];
+    graph: TicketGraph;
+    // Each ticket's own hours and the field they were read from
+    hours: Map<Ticket, TicketHours>;
+    // Worklogs by ticket key; tickets with worklogs have their hours attributed from them
+    worklogs: Map<string, Worklog[]>;
+    // Tickets the eligibility rules leave out, by key; their own hours aren't claimed,
+    // but their children's still can be
+    exclusions: Map<string, Exclusion>;
+    // MAP tickets (activity anchors)
+    anchors: Set<Ticket>;
+    roster?: Roster;
+    // Record of how activities and hours were derived, for explain and the Provenance column
+    derivation: Derivation;
+    // How each ticket linked to MAP tickets is shared between them, by key
+    anchorResolutions: Map<string, AnchorResolution>;
+    // Which MAP tickets claim each ticket's own hours, by key
+    claimShares: Map<string, ClaimShares>;
+    // Contributions each MAP ticket claims, worked out once
+    claimed: Map<Ticket, Contributor[]>;
+    // Problems found sharing tickets between MAP tickets, in the order they were found;
+    // complete once contributors have been attributed
+    anchorIssues: Issue[];
+    // WIP hours of each subtree worked out so far
+    wipHours: Map<Ticket, number>;
+};
+
+// The MAP tickets that claim a ticket's own hours, and how much of them each
+export type ClaimShares = {
+    shares: AnchorShare[];
+    // Whether any MAP ticket with an activity reaches the ticket, through its own links
+    // or its ancestors'; a reached ticket with no shares isn't claimed at all
+    reached: boolean;
+};
+
+export type ResolvedTickets = {
+    model: TicketModel;
+    // Problems with the export itself, its hours and its worklogs
+    issues: Issue[];
+    // Tickets whose R&DTI activity set in the export differs from their ancestors'
+    activityConflicts: ActivityConflict[];
+    // Tickets given an R&DTI activity from linked MAP tickets or their ancestors
+    processedCount: number;
+};
+
+// Check the tickets, read their hours, index them, and fill in each ticket's R&DTI
+// Activity from the export, its linked MAP tickets and its ancestors, in the configured
+// order. The rows are updated in place.
+export function resolveTickets(inputs: LoadedInputs, config: Config): ResolvedTickets {
+    const { rows } = inputs;
+
+    // Check the export before anything is derived from it; this also breaks parent cycles
+    const issues = validateTickets(rows, config);
+
+    // Each ticket's own hours, from the first configured hours source that has a value
+    const { hours, issues: hoursIssues } = readTicketHours(rows, config);
+    issues.push(...hoursIssues);
+
+    // Parent, child and link indexes for the whole run
+    const graph = buildTicketGraph(rows);
+
+    const worklogs = inputs.worklogs ?? new Map<string, Worklog[]>();
+    for (const [key, entries] of worklogs) {
+        if (graph.tickets.has(key)) continue;
+        issues.push({
+            severity: 'warning',
+            ticket: key,
+            check: 'Worklog for unknown ticket',
+            message: `${roundCents(sumWorklogHours(entries))} hours of worklogs are on a ticket that is not in the export and were skipped`,
+        });
+    }
+
+    const model: TicketModel = {
+        config,
+        rows,
+        graph,
+        hours,
+        worklogs,
+        exclusions: findExclusions(rows, graph, config),
+        anchors: new Set(rows.filter(row => isActivityAnchor(row, config))),
+        roster: inputs.roster,
+        derivation: { activitySources: new Map(), linkedItems: new Map(), hourChoices: new Map(), wipRollups: new Map(), traced: [] },
+        anchorResolutions: new Map(),
+        claimShares: new Map(),
+        claimed: new Map(),
+        anchorIssues: [],
+        wipHours: new Map(),
+    };
+
+    // A ticket linked to MAP tickets with different activities has no one activity to pass down
+    const { activities, conflicts: activityConflicts } = resolveActivities(rows, graph, config.activityPrecedence, ticket => isMapTicket(model, ticket), ticket => {
+        const shares = getAnchorShares(model, ticket);
+        const activity = sharedActivity(shares);
+        return activity ? { activity, anchors: shares.map(share => share.anchor['Work item key']) } : undefined;
+    });
+    let processedCount = 0;
+    for (const ticket of rows) {
+        if (isMapTicket(model, ticket)) continue;
+        const resolved = activities.get(ticket['Work item key']);
+        const claim = getClaimShares(model, ticket);
+        if (resolved?.origin === 'explicit' || (!resolved && claim.shares.length === 0)) continue;
+
+        // Show the activity the ticket's hours are claimed under; it differs from the
+        // resolved one when MAP tickets reach it through both its links and its parent.
+        // Hours split between activities leave it empty, with the split in its source.
+        const claimed = claim.shares.length > 0;
+        const activity = claimed ? sharedActivity(claim.shares) ?? '' : resolved!.activity;
+        const anchors = claimed ? claim.shares.map(share => share.anchor['Work item key']) : resolved!.anchors;
+        const split = describeSplit(claim.shares) ?? undefined;
+        const linked = resolved ? resolved.origin === 'linked' : getAnchorShares(model, ticket).length > 0;
+
+        ticket['R&DTI Activity'] = activity;
+        processedCount++;
+        model.derivation.activitySources.set(ticket['Work item key'], linked
+            ? { from: 'link', anchors, split }
+            : { from: 'ancestor', anchors, via: resolved?.via ?? getParentKey(ticket), split });
+    }
+
+    return { model, issues, activityConflicts, processedCount };
+}
+
+// Whether a ticket is a MAP ticket (an activity anchor)
+export function isMapTicket(model: TicketModel, ticket: Ticket): boolean {
+    return model.anchors.has(ticket);
+}
+
+export function isExcluded(model: TicketModel, ticket: Ticket): boolean {
+    return model.exclusions.has(ticket['Work item key']);
+}
+
+// How a ticket is shared between its linked MAP tickets under the multi-MAP policy;
+// activity propagation and hours attribution both use this
+export function getAnchorShares(model: TicketModel, ticket: Ticket): AnchorShare[] {
+    let resolution = model.anchorResolutions.get(ticket['Work item key']);
+    if (!resolution) {
+        resolution = resolveAnchorShares(ticket, findMapTicketsInLinked(model, ticket), model.config.multiAnchorPolicy);
+        model.anchorResolutions.set(ticket['Work item key'], resolution);
+        if (resolution.issue) model.anchorIssues.push(resolution.issue);
+    }
+    return resolution.shares;
+}
+
+// The MAP tickets that claim a ticket's own hours: the ones it's linked to, and the
+// ones that claim its parent's. A ticket reached both ways is shared between them under
+// the multi-MAP policy, taking linked and inherited MAP tickets in the order the
+// activity precedence puts them, so no hours are claimed twice.
+export function getClaimShares(model: TicketModel, ticket: Ticket): ClaimShares {
+    const key = ticket['Work item key'];
+    let claim = model.claimShares.get(key);
+    if (claim) return claim;
+    // Mark the ticket as in progress so a cycle that slipped through ends the walk
+    model.claimShares.set(key, { shares: [], reached: false });
+
+    const linked = findMapTicketsInLinked(model, ticket);
+    const parentKey = getParentKey(ticket);
+    const parent = parentKey && parentKey !== key ? model.graph.tickets.get(parentKey) : undefined;
+    // MAP tickets keep their hours' claim to themselves, like their activity
+    const inherited = parent && !isMapTicket(model, parent) ? getClaimShares(model, parent) : undefined;
+
+    if (!inherited?.reached) {
+        claim = { shares: getAnchorShares(model, ticket), reached: linked.length > 0 };
+    } else if (linked.length === 0) {
+        claim = inherited;
+    } else {
+        const inheritedAnchors = inherited.shares.map(share => share.anchor);
+        const { activityPrecedence } = model.config;
+        const ordered = activityPrecedence.indexOf('inherited') < activityPrecedence.indexOf('linked')
+            ? [...inheritedAnchors, ...linked]
+            : [...linked, ...inheritedAnchors];
+        const resolution = resolveAnchorShares(ticket, Array.from(new Set(ordered)), model.config.multiAnchorPolicy);
+        if (resolution.issue) model.anchorIssues.push(resolution.issue);
+        claim = { shares: resolution.shares, reached: true };
+    }
+
+    model.claimShares.set(key, claim);
+    return claim;
+}
+
+// The share of a ticket's own hours a MAP ticket claims
+export function getShareOfHours(model: TicketModel, ticket: Ticket, mapTicket: Ticket): number {
+    if (isMapTicket(model, ticket)) return 1;
+    const claim = getClaimShares(model, ticket);
+    // Tickets only reached through MAP tickets without an activity go to whoever reaches them
+    if (!claim.reached) return 1;
+    const share = claim.shares.find(share => share.anchor['Work item key'] === mapTicket['Work item key']);
+    return share ? share.fraction : 0;
+}
+
+// MAP tickets with an activity linked from either side: the ticket's own links in
+// order, then MAP tickets that link to it
+function findMapTicketsInLinked(model: TicketModel, ticket: Ticket): Ticket[] {
+    const { graph } = model;
+    const isMapWithActivity = (linkedTicket: Ticket | undefined): linkedTicket is Ticket =>
+        !!linkedTicket && isMapTicket(model, linkedTicket) && !!linkedTicket['R&DTI Activity'];
+    const found = (graph.links.get(ticket['Work item key']) ?? [])
+        .map(itemKey => graph.tickets.get(itemKey))
+        .filter(isMapWithActivity);
+    for (const mapTicket of (graph.linkedFrom.get(ticket['Work item key']) ?? []).filter(isMapWithActivity)) {
+        if (!found.some(existing => existing['Work item key'] === mapTicket['Work item key'])) {
+            found.push(mapTicket);
+        }
+    }
+    return found;
+}
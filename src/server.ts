@@ -0,0 +1,416 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { aggregateContributors, summaryCost, totalByActivity } from './aggregate';
+import { Config } from './config';
+import { InputError, RdTrackingError, UsageError } from './errors';
+import { formatProvenance } from './explain';
+import { Logger, SILENT } from './log';
+import { AnalysisOptions, loadInputs } from './load';
+import { escapeHtml } from './pack';
+import { formatDate } from './periods';
+import { Analysis, analyseInputs } from './process';
+import { roundCents } from './rates';
+import { renderWorkbook } from './render';
+import { Contributor } from './types';
+import { countErrors } from './validation';
+
+// A web page for running the attribution without the command line: upload exports and
+// the files that go with them, review the totals, drill down from each MAP ticket to its
+// contributors, and download the claim workbook. Pages, styles and scripts are all
+// served from here, so it works offline.
+export type RdTrackingServer = {
+    url: string;
+    close(): Promise<void>;
+};
+
+// Side files the upload page takes, one of each, by the analysis option they set
+type SideFile = 'rates' | 'roster' | 'worklogs' | 'capacity' | 'overrides';
+
+// Files the upload page takes, by form field
+const UPLOAD_FIELDS: { field: 'input' | SideFile; label: string; accept: string; hint: string }[] = [
+    { field: 'input', label: 'Jira exports', accept: '.xlsx,.csv,.json,.ndjson,.jsonl', hint: 'One or more; they\'re merged into one ticket set' },
+    { field: 'rates', label: 'Rate card', accept: '.csv,.xlsx', hint: 'Hourly and on-cost rates per person, to cost the hours' },
+    { field: 'roster', label: 'People roster', accept: '.csv,.xlsx', hint: 'Each person\'s role' },
+    { field: 'worklogs', label: 'Worklogs', accept: '.csv,.xlsx', hint: 'Hours per author, used where a ticket has them' },
+    { field: 'capacity', label: 'Capacity', accept: '.csv,.xlsx', hint: 'FTE, dates and leave, or hours paid, per person' },
+    { field: 'overrides', label: 'Analyst overrides', accept: '.yaml,.yml,.csv,.xlsx', hint: 'Corrections on top of the attribution' },
+];
+
+// An upload as the upload page posts it: each file base64-encoded, with the field it was chosen in
+type Upload = {
+    files: { field: string; name: string; content: string }[];
+    period?: string;
+    sheet?: string;
+};
+
+// A finished run, kept for its report page and workbook download
+type Run = {
+    names: string[];
+    analysis: Analysis;
+    workbook: Buffer;
+};
+
+// Older runs are dropped once there are more than this, to bound memory
+const MAX_RUNS = 10;
+const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+// Start the server on localhost; port 0 picks a free port
+export function startServer(config: Config, port = 0, log: Logger = SILENT): Promise<RdTrackingServer> {
+    const runs = new Map<string, Run>();
+    // Host headers this server answers to, once it's listening
+    const hosts = new Set<string>();
+
+    const server = http.createServer((request, response) => {
+        const send = (status: number, type: string, body: string | Buffer, headers: http.OutgoingHttpHeaders = {}) => {
+            response.writeHead(status, { 'Content-Type': type, ...headers });
+            response.end(body);
+        };
+        // Only answer pages served from this server, so other sites can't reach the runs
+        // by rebinding their own name to 127.0.0.1 or posting forms to it
+        const origin = request.headers.origin;
+        if (!hosts.has(request.headers.host ?? '') || (origin !== undefined && !hosts.has(origin.replace(/^http:\/\//, '')))) {
+            return send(403, 'text/plain; charset=utf-8', 'Forbidden: open this page at localhost');
+        }
+        const url = new URL(request.url || '/', 'http://localhost');
+        const runMatch = /^\/runs\/([0-9a-f-]+)(\/workbook\.xlsx)?$/.exec(url.pathname);
+
+        if (request.method === 'GET' && url.pathname === '/') {
+            return send(200, 'text/html; charset=utf-8', uploadPage(config));
+        }
+        if (request.method === 'POST' && url.pathname === '/runs') {
+            if (!/^application\/json\s*(;|$)/i.test(request.headers['content-type'] ?? '')) {
+                request.resume();
+                return send(415, 'application/json', JSON.stringify({ error: 'Uploads must be sent as application/json' }));
+            }
+            readBody(request)
+                .then(body => analyseUpload(parseUpload(body), config))
+                .then(run => {
+                    // Random, so other pages can't guess their way to a run's workbook
+                    const id = crypto.randomUUID();
+                    runs.set(id, run);
+                    for (const old of Array.from(runs.keys()).slice(0, Math.max(0, runs.size - MAX_RUNS))) runs.delete(old);
+                    log.info(`✅ Attributed ${roundCents(run.analysis.reconciliation.attributedHours)} hours from ${run.names.join(', ')}`);
+                    send(200, 'application/json', JSON.stringify({ url: `/runs/${id}` }));
+                })
+                .catch(error => {
+                    if (error instanceof RdTrackingError) {
+                        log.warn(`⚠️ Upload failed: ${error.message}`);
+                        return send(400, 'application/json', JSON.stringify({ error: error.message }));
+                    }
+                    log.error(`❌ Error occurred: ${(error as Error).stack ?? error}`);
+                    send(500, 'application/json', JSON.stringify({ error: `Unexpected error: ${(error as Error).message}` }));
+                });
+            return;
+        }
+        const run = runMatch && request.method === 'GET' ? runs.get(runMatch[1]) : undefined;
+        if (run && runMatch![2]) {
+            return send(200, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', run.workbook, {
+                'Content-Disposition': `attachment; filename="${workbookName(run)}"`,
+            });
+        }
+        if (run) {
+            return send(200, 'text/html; charset=utf-8', reportPage(runMatch![1], run, config));
+        }
+        const message = runMatch ? 'This run has expired or the server was restarted; upload the exports again.' : `Nothing at ${url.pathname}`;
+        send(404, 'text/html; charset=utf-8', page('Not found', `<h1>Not found</h1>\n<p>${escapeHtml(message)}</p>\n<p><a href="/">Upload exports</a></p>`));
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            const address = server.address() as { port: number };
+            hosts.add(`127.0.0.1:${address.port}`);
+            hosts.add(`localhost:${address.port}`);
+            resolve({
+                url: `http://127.0.0.1:${address.port}`,
+                close: () => new Promise(done => server.close(() => done())),
+            });
+        });
+    });
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            // Keep reading past the limit, so the response isn't cut off mid-upload
+            if (size <= MAX_UPLOAD_BYTES) chunks.push(chunk);
+        });
+        request.on('end', () => size > MAX_UPLOAD_BYTES
+            ? reject(new InputError(`Uploads are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB in total`))
+            : resolve(Buffer.concat(chunks).toString('utf8')));
+        request.on('error', reject);
+    });
+}
+
+function parseUpload(body: string): Upload {
+    let upload: Upload;
+    try {
+        upload = JSON.parse(body);
+    } catch (error) {
+        throw new InputError(`Could not read the upload: ${(error as Error).message}`);
+    }
+    if (!upload || !Array.isArray(upload.files)) {
+        throw new InputError('Could not read the upload: no files');
+    }
+    return upload;
+}
+
+// Write the uploaded files to a scratch directory, analyse them and render the workbook
+async function analyseUpload(upload: Upload, config: Config): Promise<Run> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rd-tracking-'));
+    try {
+        const options: AnalysisOptions = {
+            input: [],
+            period: upload.period?.trim() || undefined,
+            sheet: upload.sheet?.trim() || undefined,
+        };
+        upload.files.forEach((file, index) => {
+            const uploadField = UPLOAD_FIELDS.find(item => item.field === file.field);
+            if (!uploadField) {
+                throw new InputError(`Unknown upload field '${file.field}'`);
+            }
+            // Each file gets its own directory, so files with the same name don't clash
+            const target = path.join(dir, String(index), path.basename(file.name) || 'upload');
+            fs.mkdirSync(path.dirname(target));
+            fs.writeFileSync(target, Buffer.from(file.content, 'base64'));
+
+            if (uploadField.field === 'input') {
+                options.input!.push(target);
+            } else if (options[uploadField.field] !== undefined) {
+                throw new InputError(`Upload one ${uploadField.label.toLowerCase()} file, not several`);
+            } else {
+                options[uploadField.field] = target;
+            }
+        });
+        if (options.input!.length === 0) {
+            throw new UsageError('Choose at least one Jira export to upload');
+        }
+
+        const analysis = analyseInputs(await loadInputs(options, config), config);
+        const workbook = await renderWorkbook(analysis, config);
+        return {
+            names: upload.files.filter(file => file.field === 'input').map(file => path.basename(file.name)),
+            analysis,
+            workbook: Buffer.from(await workbook.xlsx.writeBuffer()),
+        };
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+// Named like the process command's default output file
+function workbookName(run: Run): string {
+    const name = path.parse(run.names[0]).name.replace(/[^\w.-]+/g, '_');
+    return `${name}_with_rdti.xlsx`;
+}
+
+const STYLE = `
+body{font-family:system-ui,sans-serif;max-width:1100px;margin:2em auto;padding:0 1em;line-height:1.4;color:#222}
+table{border-collapse:collapse;margin:.5em 0 1em}th,td{border:1px solid #ccc;padding:4px 8px;text-align:left;vertical-align:top}
+th{background:#f3f3f3}td.hours{text-align:right;white-space:nowrap}
+label{display:block;font-weight:600;margin-top:1em}.hint{color:#666;font-size:.9em;margin:0}
+.error{color:#b00020}.warning{color:#8a5a00}.skipped{color:#666}
+details{margin:.3em 0}details.map{border:1px solid #ddd;border-radius:4px;padding:.4em .8em}
+details details{margin-left:1.2em}summary{cursor:pointer}
+.button{display:inline-block;background:#1f5fbf;color:#fff;padding:.5em 1em;border:0;border-radius:4px;text-decoration:none;font-size:1em;cursor:pointer}
+.button:disabled{background:#999}
+`;
+
+function page(title: string, body: string): string {
+    return [
+        '<!DOCTYPE html>', '<html lang="en">', '<head>', '<meta charset="utf-8">',
+        `<title>${escapeHtml(title)}</title>`, `<style>${STYLE}</style>`,
+        '</head>', '<body>', body, '</body>', '</html>',
+    ].join('\n') + '\n';
+}
+
+function uploadPage(config: Config): string {
+    const html: string[] = [];
+    html.push('<h1>R&amp;DTI attribution</h1>');
+    html.push('<p>Upload Jira exports to attribute their hours to R&amp;DTI activities and people. Files stay on this computer.</p>');
+    html.push('<form id="upload">');
+    for (const { field, label, accept, hint } of UPLOAD_FIELDS) {
+        const multiple = field === 'input' ? ' multiple required' : '';
+        html.push(`<label for="${field}">${escapeHtml(label)}${field === 'input' ? '' : ' (optional)'}</label>`);
+        html.push(`<p class="hint">${escapeHtml(hint)}</p>`);
+        html.push(`<input type="file" id="${field}" name="${field}" accept="${accept}"${multiple}>`);
+    }
+    html.push('<label for="period">Claim period (optional)</label>');
+    html.push('<p class="hint">FY2026, FY2026-Q1 or 2025-07-01..2025-12-31; hours dated outside it aren\'t claimed</p>');
+    html.push(`<input type="text" id="period" name="period" value="${escapeHtml(config.periods.period ?? '')}">`);
+    html.push('<label for="sheet">Sheet (optional)</label>');
+    html.push('<p class="hint">Sheet name or 1-based number in each .xlsx export; defaults to the first sheet</p>');
+    html.push('<input type="text" id="sheet" name="sheet">');
+    html.push('<p><button type="submit" class="button">Analyse</button></p>');
+    html.push('<p id="status"></p>');
+    html.push('</form>');
+    html.push(`<script>
+const form = document.getElementById('upload');
+const status = document.getElementById('status');
+const readFile = file => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result.slice(reader.result.indexOf(',') + 1));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+form.addEventListener('submit', async event => {
+    event.preventDefault();
+    const button = form.querySelector('button');
+    button.disabled = true;
+    status.className = '';
+    status.textContent = 'Analysing…';
+    try {
+        const files = [];
+        for (const input of form.querySelectorAll('input[type=file]')) {
+            for (const file of input.files) files.push({ field: input.name, name: file.name, content: await readFile(file) });
+        }
+        const response = await fetch('/runs', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ files, period: form.period.value, sheet: form.sheet.value }),
+        });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+        location.href = result.url;
+    } catch (error) {
+        status.className = 'error';
+        status.textContent = error.message;
+        button.disabled = false;
+    }
+});
+</script>`);
+    return page('R&DTI attribution', html.join('\n'));
+}
+
+function reportPage(id: string, run: Run, config: Config): string {
+    const { analysis } = run;
+    const { attributed, rateCard, period, reconciliation, issues, derivation, graph } = analysis;
+    const summaries = aggregateContributors(attributed, rateCard);
+    const html: string[] = [];
+
+    html.push('<h1>R&amp;DTI attribution</h1>', '<ul>');
+    html.push(`<li><strong>Exports:</strong> ${escapeHtml(run.names.join(', '))}</li>`);
+    if (period) html.push(`<li><strong>Period:</strong> ${escapeHtml(period.label)}</li>`);
+    html.push(`<li><strong>Attributed:</strong> ${formatHours(reconciliation.attributedHours)} of ${formatHours(reconciliation.loggedHours)} logged</li>`);
+    html.push('</ul>');
+    html.push(`<p><a class="button" href="/runs/${id}/workbook.xlsx">Download workbook</a> <a href="/">Upload other exports</a></p>`);
+
+    // Totals per activity and per person, with costs when a rate card was uploaded
+    const costHeaders = rateCard ? '<th>Labour Cost</th><th>On-cost</th><th>Total Cost</th>' : '';
+    const costCells = (labourCost: number, onCost: number) => rateCard
+        ? `<td class="hours">${formatCost(labourCost)}</td><td class="hours">${formatCost(onCost)}</td><td class="hours">${formatCost(labourCost + onCost)}</td>`
+        : '';
+
+    html.push('<h2>Activities</h2>');
+    if (summaries.length === 0) html.push('<p><em>No hours attributed.</em></p>');
+    else {
+        html.push('<table>', `<tr><th>Activity</th><th>Activity Type</th><th>Hours</th>${costHeaders}</tr>`);
+        for (const [activity, totals] of totalByActivity(summaries)) {
+            html.push(`<tr><td>${escapeHtml(activity)}</td><td>${escapeHtml(totals.activityType)}</td>` +
+                `<td class="hours">${formatHours(totals.hours)}</td>${costCells(totals.labourCost, totals.onCost)}</tr>`);
+        }
+        html.push('</table>');
+    }
+
+    html.push('<h2>People</h2>');
+    if (summaries.length === 0) html.push('<p><em>No hours attributed.</em></p>');
+    else {
+        const people = new Map<string, { role: string; hours: number; labourCost: number; onCost: number; activities: string[] }>();
+        for (const summary of summaries) {
+            const person = people.get(summary.who) ?? { role: summary.role, hours: 0, labourCost: 0, onCost: 0, activities: [] };
+            const cost = summaryCost(summary);
+            person.hours += summary.totalHours;
+            person.labourCost += cost?.labourCost ?? 0;
+            person.onCost += cost?.onCost ?? 0;
+            person.activities.push(`${summary.project} (${formatHours(summary.totalHours)})`);
+            people.set(summary.who, person);
+        }
+        html.push('<table>', `<tr><th>Who</th><th>Role</th><th>Hours</th>${costHeaders}<th>Activities</th></tr>`);
+        for (const [who, person] of Array.from(people).sort(([a], [b]) => a.localeCompare(b))) {
+            html.push(`<tr><td>${escapeHtml(who)}</td><td>${escapeHtml(person.role)}</td><td class="hours">${formatHours(person.hours)}</td>` +
+                `${costCells(person.labourCost, person.onCost)}<td>${escapeHtml(person.activities.join(', '))}</td></tr>`);
+        }
+        html.push('</table>');
+    }
+
+    // Each MAP ticket's linked items, and the contributions claimed through each one
+    html.push('<h2>MAP tickets</h2>');
+    if (derivation.linkedItems.size === 0) html.push('<p><em>No MAP tickets with an R&amp;DTI activity.</em></p>');
+    else html.push('<p><input type="search" id="filter" placeholder="Filter MAP tickets" size="40"></p>');
+    for (const [mapKey, decisions] of derivation.linkedItems) {
+        const mapTicket = graph.tickets.get(mapKey);
+        const claimed = attributed.filter(contributor => contributor.trace?.[0]?.ticket === mapKey);
+        html.push('<details class="map">');
+        html.push(`<summary><strong>${escapeHtml(mapKey)}</strong> ${escapeHtml(mapTicket?.['Summary'] || '')} ` +
+            `— ${escapeHtml(mapTicket?.['R&DTI Activity'] || '')}, ${formatHours(sumHours(claimed))} claimed ` +
+            `(Sum of WIP hours ${formatHours(mapTicket?.['Sum of WIP hours'] ?? 0)})</summary>`);
+        if (decisions.length === 0) html.push('<p><em>No linked items.</em></p>');
+        for (const decision of decisions) {
+            const item = graph.tickets.get(decision.item);
+            const title = `${escapeHtml(decision.item)} ${escapeHtml(item?.['Summary'] || '')}`;
+            if (!decision.counted) {
+                html.push(`<p class="skipped">Skipped ${title}: ${escapeHtml(decision.reason)}</p>`);
+                continue;
+            }
+            const contributors = claimed.filter(contributor => contributor.trace?.[1]?.ticket === decision.item);
+            const share = decision.share < 1 ? ` at ${Math.round(decision.share * 100)}%` : '';
+            html.push('<details>');
+            html.push(`<summary>${title}${share}: ${formatHours(sumHours(contributors))} claimed</summary>`);
+            html.push(`<p class="hint">${escapeHtml(decision.reason)}</p>`);
+            html.push(contributorTable(contributors));
+            html.push('</details>');
+        }
+        html.push('</details>');
+    }
+
+    // Data-quality problems, errors first
+    const errorCount = countErrors(issues);
+    html.push(`<h2>Issues (${errorCount} errors, ${issues.length - errorCount} warnings)</h2>`);
+    if (issues.length === 0) html.push('<p><em>No data-quality issues found.</em></p>');
+    else {
+        const severityOrder = { error: 0, warning: 1 };
+        html.push('<table>', '<tr><th>Severity</th><th>Ticket</th><th>Check</th><th>Explanation</th></tr>');
+        for (const issue of [...issues].sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity])) {
+            html.push(`<tr><td class="${issue.severity}">${issue.severity}</td><td>${escapeHtml(issue.ticket)}</td>` +
+                `<td>${escapeHtml(issue.check)}</td><td>${escapeHtml(issue.message)}</td></tr>`);
+        }
+        html.push('</table>');
+        html.push(`<p class="hint">These are also on the '${escapeHtml(config.sheets.issues)}' sheet of the workbook.</p>`);
+    }
+
+    html.push(`<script>
+const filter = document.getElementById('filter');
+if (filter) filter.addEventListener('input', () => {
+    const text = filter.value.toLowerCase();
+    for (const map of document.querySelectorAll('details.map')) map.hidden = !map.textContent.toLowerCase().includes(text);
+});
+</script>`);
+    return page(`R&DTI attribution: ${run.names.join(', ')}`, html.join('\n'));
+}
+
+function contributorTable(contributors: Contributor[]): string {
+    if (contributors.length === 0) return '<p><em>No hours claimed.</em></p>';
+    const rows = contributors.map(contributor =>
+        `<tr><td>${escapeHtml(contributor.who)}</td><td>${escapeHtml(contributor.project)}</td><td class="hours">${formatHours(contributor.hoursCost)}</td>` +
+        `<td>${escapeHtml(contributor.workItem)}</td><td>${contributor.date ? formatDate(contributor.date) : ''}</td>` +
+        `<td>${escapeHtml(contributor.method ?? '')}</td><td>${escapeHtml(formatProvenance(contributor))}</td></tr>`);
+    return ['<table>', '<tr><th>Who</th><th>Activity</th><th>Hours</th><th>Work Item</th><th>Date</th><th>Method</th><th>Derivation</th></tr>', ...rows, '</table>'].join('\n');
+}
+
+function sumHours(contributors: Contributor[]): number {
+    return contributors.reduce((total, contributor) => total + contributor.hoursCost, 0);
+}
+
+function formatHours(hours: number): string {
+    return `${roundCents(hours)}h`;
+}
+
+function formatCost(amount: number): string {
+    return `$${roundCents(amount).toFixed(2)}`;
+}
@@ -0,0 +1,104 @@
+import ExcelJS from 'exceljs';
+import fs from 'fs';
+import path from 'path';
+import { InputError } from './errors';
+import { selectWorksheet } from './input';
+import { parseTicketDate } from './periods';
+
+// A file read alongside the export, such as a rate card, roster, capacity or worklog
+// file: a .csv file, or a sheet of an .xlsx workbook, with its headers in the first row
+export type SheetFile = {
+    // The kind of file and its path, for errors, e.g. "Rate card /claims/rates.csv"
+    label: string;
+    worksheet: ExcelJS.Worksheet;
+    // Column number of each header
+    headers: Map<string, number>;
+};
+
+// Read a .csv file, or a sheet of an .xlsx workbook (the first sheet when `sheet` isn't
+// given). `kind` names the file in errors, e.g. 'Rate card'.
+export async function readSheetFile(file: string, kind: string, sheet?: string): Promise<SheetFile> {
+    const filePath = path.resolve(file);
+    if (!fs.existsSync(filePath)) {
+        throw new InputError(`${kind} not found: ${filePath}`);
+    }
+    const label = `${kind} ${filePath}`;
+
+    const workbook = new ExcelJS.Workbook();
+    let worksheet: ExcelJS.Worksheet | undefined;
+    try {
+        if (/\.csv$/i.test(filePath)) {
+            worksheet = await workbook.csv.readFile(filePath);
+        } else {
+            await workbook.xlsx.readFile(filePath);
+            worksheet = sheet === undefined ? workbook.worksheets[0] : selectWorksheet(workbook, sheet);
+        }
+    } catch (error) {
+        if (error instanceof InputError) throw error;
+        throw new InputError(`Could not read ${kind.toLowerCase()} ${filePath}: ${(error as Error).message}`);
+    }
+    if (!worksheet) {
+        throw new InputError(`${label} has no sheets.`);
+    }
+
+    const headers = new Map<string, number>();
+    worksheet.getRow(1).eachCell((cell, colNumber) => {
+        if (cell.value) headers.set(cell.value.toString().trim(), colNumber);
+    });
+    return { label, worksheet, headers };
+}
+
+// Throw when a required column is missing. Each entry is a header, or a list of
+// headers any one of which will do.
+export function requireColumns(file: SheetFile, required: (string | string[])[]): void {
+    const missing = required
+        .filter(headers => ![headers].flat().some(header => file.headers.has(header)))
+        .map(headers => [headers].flat().map(header => `'${header}'`).join(' or '));
+    if (missing.length > 0) {
+        throw new InputError(`${file.label} is missing column(s): ${missing.join(', ')}`);
+    }
+}
+
+// Call back with each row below the header, and a lookup of its cells by header; cells
+// in columns the file doesn't have are null
+export function eachSheetRow(file: SheetFile, callback: (cell: (header: string) => ExcelJS.CellValue, rowNumber: number) => void): void {
+    file.worksheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return; // skip header
+        const cell = (header: string) => {
+            const colNumber = file.headers.get(header);
+            return colNumber ? row.getCell(colNumber).value : null;
+        };
+        callback(cell, rowNumber);
+    });
+}
+
+// Throw one error listing every invalid row, when there are any
+export function rejectInvalidRows(file: SheetFile, problems: string[]): void {
+    if (problems.length > 0) {
+        throw new InputError(`${file.label} has invalid rows:\n  ${problems.join('\n  ')}`);
+    }
+}
+
+// undefined for an empty cell, null for one that isn't a date. Text dates are read
+// the same way as ticket dates, so 01/07/2025 is 1 July.
+export function toDateCell(value: ExcelJS.CellValue): Date | undefined | null {
+    if (value === null || value === undefined || String(value).trim() === '') return undefined;
+    const date = parseTicketDate(value instanceof Date ? value.toISOString() : String(value));
+    return date ?? null;
+}
+
+// undefined for an empty cell, null for one that isn't a number. Currency signs,
+// thousands separators and spaces are ignored, so "$1,200" is 1200.
+export function toNumberCell(value: ExcelJS.CellValue): number | undefined | null {
+    if (value === null || value === undefined || String(value).trim() === '') return undefined;
+    if (typeof value === 'number') return value;
+    const text = String(value).replace(/[$,\s]/g, '');
+    const parsed = text === '' ? NaN : Number(text);
+    return isNaN(parsed) ? null : parsed;
+}
+
+// People are matched across the export and side files by name, ignoring case and
+// surrounding spaces
+export function normalizePerson(name: string): string {
+    return name.trim().toLowerCase();
+}
@@ -0,0 +1,171 @@
+import ExcelJS from 'exceljs';
+import fs from 'fs';
+import path from 'path';
+import { isActivityAnchor } from './anchors';
+import { Config } from './config';
+import { InputError } from './errors';
+import { Analysis } from './process';
+import { roundCents } from './rates';
+
+// Hours attributed to one person from one work item under one activity
+export type SnapshotEntry = {
+    activity: string;
+    who: string;
+    workItem: string;
+    hours: number;
+};
+
+// What a run attributed, saved next to its workbook so later runs can be diffed against it
+export type Snapshot = {
+    version: 1;
+    createdAt: string;
+    // Input file or JQL query the tickets came from
+    source: string;
+    period?: string;
+    // R&DTI Activity by ticket key, for tickets that have one
+    activities: Record<string, string>;
+    // Sum of WIP hours by MAP ticket key
+    sumOfWipHours: Record<string, number>;
+    // Claimed hours, sorted by activity, person and work item
+    attribution: SnapshotEntry[];
+};
+
+export const SNAPSHOT_VERSION = 1;
+
+export function buildSnapshot(analysis: Analysis, source: string, config: Config): Snapshot {
+    const activities: Record<string, string> = {};
+    const sumOfWipHours: Record<string, number> = {};
+    for (const ticket of analysis.rows) {
+        const key = ticket['Work item key'];
+        if (ticket['R&DTI Activity']) activities[key] = ticket['R&DTI Activity'];
+        if (isActivityAnchor(ticket, config) && ticket['R&DTI Activity']) {
+            sumOfWipHours[key] = roundCents(ticket['Sum of WIP hours'] ?? 0);
+        }
+    }
+
+    const entries = new Map<string, SnapshotEntry>();
+    for (const contributor of analysis.attributed) {
+        const key = `${contributor.project}|${contributor.who}|${contributor.workItem}`;
+        const entry = entries.get(key) ?? { activity: contributor.project, who: contributor.who, workItem: contributor.workItem, hours: 0 };
+        entry.hours += contributor.hoursCost;
+        entries.set(key, entry);
+    }
+
+    return {
+        version: SNAPSHOT_VERSION,
+        createdAt: new Date().toISOString(),
+        source,
+        period: analysis.period?.label,
+        activities,
+        sumOfWipHours,
+        attribution: sortEntries(Array.from(entries.values(), entry => ({ ...entry, hours: roundCents(entry.hours) }))),
+    };
+}
+
+// The snapshot saved with an output workbook: claim.xlsx → claim.snapshot.json
+export function defaultSnapshotFile(out: string): string {
+    const parsed = path.parse(out);
+    return path.join(parsed.dir, `${parsed.name}.snapshot.json`);
+}
+
+export function writeSnapshot(file: string, snapshot: Snapshot): void {
+    fs.writeFileSync(path.resolve(file), JSON.stringify(snapshot, null, 2) + '\n');
+}
+
+// Read a saved snapshot (.json), or rebuild one from an output workbook (.xlsx)
+export async function readSnapshot(file: string, config: Config): Promise<Snapshot> {
+    const snapshotPath = path.resolve(file);
+    if (!fs.existsSync(snapshotPath)) {
+        throw new InputError(`Snapshot not found: ${snapshotPath}`);
+    }
+
+    if (/\.xlsx$/i.test(snapshotPath)) {
+        return readWorkbookSnapshot(snapshotPath, config);
+    }
+
+    let snapshot: Snapshot;
+    try {
+        snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf8'));
+    } catch (error) {
+        throw new InputError(`Could not read snapshot ${snapshotPath}: ${(error as Error).message}`);
+    }
+    if (snapshot?.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.attribution)) {
+        throw new InputError(`${snapshotPath} is not an rd-tracking snapshot (version ${SNAPSHOT_VERSION})`);
+    }
+    return snapshot;
+}
+
+// Rebuild a snapshot from the Results and Transformed Data sheets of an output workbook
+async function readWorkbookSnapshot(file: string, config: Config): Promise<Snapshot> {
+    const workbook = new ExcelJS.Workbook();
+    try {
+        await workbook.xlsx.readFile(file);
+    } catch (error) {
+        throw new InputError(`Could not read workbook ${file}: ${(error as Error).message}`);
+    }
+
+    // Workbooks written with --annotate keep the tickets on the input's own sheet
+    const ticketSheet = workbook.getWorksheet(config.sheets.results)
+        ?? workbook.worksheets.find(worksheet => (worksheet.getRow(1).values as ExcelJS.CellValue[]).includes('Sum of WIP hours'));
+    const results = readSheetRows(workbook, ticketSheet?.name ?? config.sheets.results, file);
+    const transformed = readSheetRows(workbook, config.sheets.transformed, file);
+
+    const activities: Record<string, string> = {};
+    const sumOfWipHours: Record<string, number> = {};
+    for (const row of results) {
+        const key = row[config.columns.key];
+        if (!key) continue;
+        if (row[config.columns.rdtiActivity]) activities[key] = row[config.columns.rdtiActivity];
+        // Only MAP tickets with an activity get a Sum of WIP hours
+        if (row['Sum of WIP hours'] !== '') sumOfWipHours[key] = roundCents(Number(row['Sum of WIP hours']) || 0);
+    }
+
+    const entries = new Map<string, SnapshotEntry>();
+    for (const row of transformed) {
+        const entry = { activity: row['Project'], who: row['Who'], workItem: row['Work Item'], hours: Number(row['Hours'] ?? row['Hours/Cost']) || 0 };
+        const key = `${entry.activity}|${entry.who}|${entry.workItem}`;
+        const existing = entries.get(key);
+        if (existing) existing.hours += entry.hours;
+        else entries.set(key, entry);
+    }
+
+    return {
+        version: SNAPSHOT_VERSION,
+        createdAt: workbook.modified?.toISOString() ?? '',
+        source: path.basename(file),
+        activities,
+        sumOfWipHours,
+        attribution: sortEntries(Array.from(entries.values(), entry => ({ ...entry, hours: roundCents(entry.hours) }))),
+    };
+}
+
+// A sheet's rows as objects keyed by header, with every value as text
+function readSheetRows(workbook: ExcelJS.Workbook, name: string, file: string): Record<string, string>[] {
+    const worksheet = workbook.getWorksheet(name);
+    if (!worksheet) {
+        throw new InputError(`${file} has no '${name}' sheet; is it an rd-tracking output workbook?`);
+    }
+
+    const headers: string[] = [];
+    worksheet.getRow(1).eachCell((cell, colNumber) => {
+        headers[colNumber] = cell.value?.toString().trim() ?? '';
+    });
+
+    const rows: Record<string, string>[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return; // skip header
+        const values: Record<string, string> = {};
+        headers.forEach((header, colNumber) => {
+            // The cell's text, so hyperlinks read as their key rather than an object
+            if (header) values[header] = row.getCell(colNumber).text.trim();
+        });
+        rows.push(values);
+    });
+    return rows;
+}
+
+function sortEntries(entries: SnapshotEntry[]): SnapshotEntry[] {
+    return entries.sort((a, b) =>
+        a.activity.localeCompare(b.activity) || a.who.localeCompare(b.who) || a.workItem.localeCompare(b.workItem)
+    );
+}
@@ -0,0 +1,13 @@
+import { Ticket } from './types';
+
+// Helper function to parse linked work items; link weights like "MAP-1 (60%)" are dropped
+export function parseLinkedWorkItems(linkedWorkItems: string): string[] {
+    if (!linkedWorkItems) return [];
+    return linkedWorkItems.split(',').map(item => item.replace(/\s*\([^)]*\)\s*$/, '').trim()).filter(Boolean);
+}
+
+// Key of a ticket's parent; the export's Parent column holds "<key> <summary>"
+export function getParentKey(ticket: Ticket): string | undefined {
+    const parent = (ticket['Parent'] || '').trim();
+    return parent ? parent.split(/\s+/)[0] : undefined;
+}
@@ -0,0 +1,35 @@
+export type Ticket = {
+    [key: string]: any;
+    'Work item key': string;
+    'Parent'?: string;
+    'Linked work items'?: string;
+    'R&DTI Activity'?: string;
+    'Work type'?: string;
+    'Work Hours in Progress'?: string;
+    'Sum of WIP hours'?: number;
+};
+
+// How a contributor's hours were attributed: from the ticket's worklogs, or when it has
+// none, to its mob, its assignee, nobody, or to the people on its children
+export type AttributionMethod = 'worklog' | 'mob' | 'assignee' | 'unassigned' | 'children-people';
+
+// One level of a contribution's derivation: the ticket and which of its hours were used
+export type TraceStep = {
+    ticket: string;
+    note: string;
+};
+
+export type Contributor = {
+    project: string;
+    who: string;
+    role: string;
+    activityType: string;
+    hoursCost: number;
+    phase: string;
+    workItem: string;
+    // Date the hours are attributed to, when the export has dates
+    date?: Date;
+    method?: AttributionMethod;
+    // From the MAP ticket down to the ticket whose hours were used
+    trace?: TraceStep[];
+};
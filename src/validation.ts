@@ -0,0 +1,211 @@
+import { isActivityAnchor } from './anchors';
+import { UNKNOWN } from './classify';
+import { Config } from './config';
+import { breakParentCycles } from './graph';
+import { getParentKey, parseLinkedWorkItems } from './tickets';
+import { Contributor, Ticket } from './types';
+
+// Rounding slack when comparing sums of hours
+const HOURS_TOLERANCE = 0.01;
+
+export type IssueSeverity = 'error' | 'warning';
+
+// A data-quality problem found in the export, for the 'Issues' sheet
+export type Issue = {
+    severity: IssueSeverity;
+    ticket: string;
+    check: string;
+    message: string;
+};
+
+// Checks on the export itself, run before any R&DTI activities are filled in.
+// Parent cycles are broken here too, before the ticket graph is built.
+export function validateTickets(rows: Ticket[], config: Config): Issue[] {
+    const issues: Issue[] = [];
+    const keys = new Set<string>();
+    const duplicates = new Set<string>();
+
+    for (const ticket of rows) {
+        const key = ticket['Work item key'];
+        if (!key) {
+            issues.push({ severity: 'error', ticket: '', check: 'Missing key', message: 'Row has no work item key and can\'t be linked to' });
+            continue;
+        }
+        if (keys.has(key) && !duplicates.has(key)) {
+            duplicates.add(key);
+            issues.push({
+                severity: 'error',
+                ticket: key,
+                check: 'Duplicate key',
+                message: 'Work item key appears on more than one row; only the last row is used for links and parents',
+            });
+        }
+        keys.add(key);
+    }
+
+    for (const ticket of rows) {
+        const key = ticket['Work item key'];
+        const anchor = isActivityAnchor(ticket, config);
+
+        for (const linkedId of parseLinkedWorkItems(ticket['Linked work items'] || '')) {
+            if (keys.has(linkedId)) continue;
+            // A missing link only loses hours when it hangs off an anchor with an activity
+            const losesHours = anchor && !!ticket['R&DTI Activity'];
+            issues.push({
+                severity: losesHours ? 'error' : 'warning',
+                ticket: key,
+                check: 'Missing linked item',
+                message: losesHours
+                    ? `Linked item ${linkedId} is not in the export, so its hours are missing from '${ticket['R&DTI Activity']}'`
+                    : `Linked item ${linkedId} is not in the export and was skipped`,
+            });
+        }
+
+        const parentKey = getParentKey(ticket);
+        if (parentKey && !keys.has(parentKey)) {
+            issues.push({
+                severity: 'warning',
+                ticket: key,
+                check: 'Missing parent',
+                message: `Parent ${parentKey} is not in the export, so no activity or hours flow through it`,
+            });
+        }
+    }
+
+    issues.push(...breakParentCycles(rows));
+    return issues;
+}
+
+// Checks on the result: hours that didn't make it into the claim, and hours that
+// can't be put against a person. `ticketHours` holds each ticket's own hours: its worklog
+// total, or else the hours read from its hours sources. `reached` holds the keys of the
+// tickets whose hours MAP tickets reached.
+export function validateAttribution(rows: Ticket[], attributed: Contributor[], config: Config, ticketHours: Map<string, number>, reached: Set<string>): Issue[] {
+    const issues: Issue[] = [];
+
+    for (const ticket of rows) {
+        if (isActivityAnchor(ticket, config) || reached.has(ticket['Work item key'])) continue;
+        const hours = ticketHours.get(ticket['Work item key']) ?? 0;
+        if (hours <= 0) continue;
+        if (!ticket['R&DTI Activity']) {
+            issues.push({
+                severity: 'warning',
+                ticket: ticket['Work item key'],
+                check: 'Hours without activity',
+                message: `${roundHours(hours)} hours logged but no R&DTI activity was found, so they are not claimed`,
+            });
+        } else {
+            // An activity set on the ticket or an ancestor, with no MAP ticket to claim it
+            issues.push({
+                severity: 'warning',
+                ticket: ticket['Work item key'],
+                check: 'Hours without MAP ticket',
+                message: `${roundHours(hours)} hours logged under '${ticket['R&DTI Activity']}' but no MAP ticket in the claim links to the ticket or its ancestors, so they are not claimed`,
+            });
+        }
+    }
+
+    const unassignedHours = new Map<string, number>();
+    for (const contributor of attributed) {
+        if (contributor.who === 'Unassigned') {
+            unassignedHours.set(contributor.workItem, (unassignedHours.get(contributor.workItem) ?? 0) + contributor.hoursCost);
+        }
+    }
+    for (const [workItem, hours] of unassignedHours) {
+        issues.push({
+            severity: 'warning',
+            ticket: workItem,
+            check: 'Unassigned hours',
+            message: `${hours} claimed hours have no assignee or mob to attribute them to`,
+        });
+    }
+
+    return issues;
+}
+
+// Contributions the classification rules couldn't give an activity type, phase or role,
+// one issue per activity, ticket and person
+export function validateClassification(attributed: Contributor[]): Issue[] {
+    const activities = new Map<string, number>();
+    const phases = new Map<string, number>();
+    const people = new Map<string, number>();
+    const add = (totals: Map<string, number>, key: string, hours: number) => totals.set(key, (totals.get(key) ?? 0) + hours);
+
+    for (const contributor of attributed) {
+        if (contributor.activityType === UNKNOWN) add(activities, contributor.project, contributor.hoursCost);
+        if (contributor.phase === UNKNOWN) add(phases, contributor.workItem, contributor.hoursCost);
+        if (contributor.role === UNKNOWN && contributor.who !== 'Unassigned') add(people, contributor.who, contributor.hoursCost);
+    }
+
+    const issues: Issue[] = [];
+    for (const [activity, hours] of activities) {
+        issues.push({
+            severity: 'warning',
+            ticket: '',
+            check: 'Unknown activity type',
+            message: `Activity '${activity}' (${roundHours(hours)} hours) is not listed under classification.activityTypes, so it is neither Core nor Supporting`,
+        });
+    }
+    for (const [workItem, hours] of phases) {
+        issues.push({
+            severity: 'warning',
+            ticket: workItem,
+            check: 'Unknown phase',
+            message: `No classification.phases rule matches this ticket, so the phase of its ${roundHours(hours)} hours is unknown`,
+        });
+    }
+    for (const [who, hours] of people) {
+        issues.push({
+            severity: 'warning',
+            ticket: '',
+            check: 'Unknown role',
+            message: `${who} (${roundHours(hours)} hours) is not on the roster, so their role is unknown`,
+        });
+    }
+    return issues;
+}
+
+// Hours attributed to a ticket across all activities can never be more than were logged
+// on it; more means the same work was counted twice
+export function reconcileHours(loggedByTicket: Map<string, number>, attributedByTicket: Map<string, number>): {
+    issues: Issue[];
+    loggedHours: number;
+    attributedHours: number;
+} {
+    const issues: Issue[] = [];
+    let loggedHours = 0;
+    let attributedHours = 0;
+
+    for (const hours of loggedByTicket.values()) loggedHours += hours;
+    for (const [workItem, hours] of attributedByTicket) {
+        attributedHours += hours;
+        const logged = loggedByTicket.get(workItem) ?? 0;
+        if (hours > logged + HOURS_TOLERANCE) {
+            issues.push({
+                severity: 'error',
+                ticket: workItem,
+                check: 'Hours over-attributed',
+                message: `${roundHours(hours)} hours attributed but only ${roundHours(logged)} logged; the ticket is counted under more than one MAP ticket or parent`,
+            });
+        }
+    }
+
+    if (attributedHours > loggedHours + HOURS_TOLERANCE) {
+        issues.push({
+            severity: 'error',
+            ticket: '',
+            check: 'Hours over-attributed',
+            message: `${roundHours(attributedHours)} hours attributed in total but only ${roundHours(loggedHours)} logged`,
+        });
+    }
+
+    return { issues, loggedHours, attributedHours };
+}
+
+export function countErrors(issues: Issue[]): number {
+    return issues.filter(issue => issue.severity === 'error').length;
+}
+
+function roundHours(hours: number): number {
+    return Math.round(hours * 100) / 100;
+}
@@ -0,0 +1,139 @@
+import ExcelJS from 'exceljs';
+import path from 'path';
+import { Config } from './config';
+import { InputError } from './errors';
+import { ActivitySource, describeInheritance } from './explain';
+import { selectWorksheet } from './input';
+import { Logger, SILENT } from './log';
+import { Analysis } from './process';
+import { roundCents } from './rates';
+
+// Fill for cells rd-tracking filled in, so they stand out from values already in the export
+const FILLED_IN: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFF2CC' } };
+
+const HEADER_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFD9E1F2' } };
+
+const NUMBER_FORMAT = '#,##0.00';
+
+// Column widths are fitted to their contents within these bounds
+const MIN_COLUMN_WIDTH = 10;
+const MAX_COLUMN_WIDTH = 60;
+
+// Copy the input workbook with R&DTI activities, Sum of WIP hours and each ticket's own
+// hours written into the ticket sheet, leaving every other cell as it was. Activities
+// filled in from MAP tickets are highlighted and carry a note naming the MAP ticket.
+export async function annotateInputWorkbook(
+    analysis: Analysis,
+    input: string,
+    sheet: string | undefined,
+    config: Config,
+    log: Logger = SILENT
+): Promise<{ workbook: ExcelJS.Workbook; worksheet: ExcelJS.Worksheet }> {
+    const inputPath = path.resolve(input);
+    const workbook = new ExcelJS.Workbook();
+    try {
+        await workbook.xlsx.readFile(inputPath);
+    } catch (error) {
+        throw new InputError(`Could not read ${inputPath} as an xlsx workbook: ${(error as Error).message}`);
+    }
+    const worksheet = selectWorksheet(workbook, sheet);
+
+    // Sheets left over from an earlier run are replaced
+    const outputSheets = new Set(Object.values(config.sheets));
+    for (const existing of [...workbook.worksheets]) {
+        if (existing !== worksheet && outputSheets.has(existing.name)) {
+            log.warn(`⚠️ Replacing sheet '${existing.name}' from an earlier run`);
+            workbook.removeWorksheet(existing.id);
+        }
+    }
+
+    const headerRow = worksheet.getRow(1);
+    const activityCol = findOrAddColumn(headerRow, config.columns.rdtiActivity);
+    // The same columns as on the 'Results' sheet; a workbook annotated before has them already
+    const wipCol = findOrAddColumn(headerRow, 'Sum of WIP hours');
+    const hoursCol = findOrAddColumn(headerRow, 'Hours');
+    const hoursSourceCol = findOrAddColumn(headerRow, 'Hours Source');
+    headerRow.getCell(activityCol).note = 'Highlighted activities were filled in from linked MAP tickets or parents; the rest were in the export';
+
+    // Rows are read in the same order as when the tickets were read
+    let index = 0;
+    worksheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return; // skip header
+        const ticket = analysis.rows[index++];
+        if (!ticket) return;
+
+        const source = analysis.derivation.activitySources.get(ticket['Work item key']);
+        if (source) {
+            const cell = row.getCell(activityCol);
+            cell.value = ticket['R&DTI Activity'] || null;
+            cell.fill = FILLED_IN;
+            cell.note = describeActivitySource(source);
+        }
+
+        // Every row is written, so values left from an earlier run don't survive
+        const key = ticket['Work item key'];
+        const wipCell = row.getCell(wipCol);
+        wipCell.value = analysis.derivation.linkedItems.has(key) ? ticket['Sum of WIP hours'] ?? 0 : null;
+        wipCell.numFmt = NUMBER_FORMAT;
+
+        const worklogHours = analysis.worklogHours.get(key);
+        const own = analysis.hours.get(ticket);
+        const hoursCell = row.getCell(hoursCol);
+        hoursCell.value = roundCents(worklogHours ?? own?.hours ?? 0);
+        hoursCell.numFmt = NUMBER_FORMAT;
+        row.getCell(hoursSourceCol).value = worklogHours !== undefined ? 'Worklogs' : own?.source ?? null;
+    });
+
+    return { workbook, worksheet };
+}
+
+// The column with this header, or a new one at the end styled like the header before it
+function findOrAddColumn(headerRow: ExcelJS.Row, header: string): number {
+    let found = 0;
+    headerRow.eachCell((cell, colNumber) => {
+        if (!found && cell.value?.toString() === header) found = colNumber;
+    });
+    if (found) return found;
+
+    const colNumber = headerRow.cellCount + 1;
+    const cell = headerRow.getCell(colNumber);
+    cell.value = header;
+    cell.style = { ...headerRow.getCell(colNumber - 1).style };
+    return colNumber;
+}
+
+// Bold, shaded and frozen header row with an autofilter, fitted column widths, and a
+// number format on numeric cells
+export function styleOutputSheet(worksheet: ExcelJS.Worksheet): void {
+    const columnCount = worksheet.getRow(1).cellCount;
+    if (columnCount === 0) return;
+
+    worksheet.getRow(1).eachCell(cell => {
+        cell.font = { bold: true };
+        cell.fill = HEADER_FILL;
+    });
+    worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+    worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columnCount } };
+
+    worksheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return;
+        row.eachCell(cell => {
+            if (typeof cell.value === 'number' && !cell.numFmt) cell.numFmt = NUMBER_FORMAT;
+        });
+    });
+
+    for (let colNumber = 1; colNumber <= worksheet.columnCount; colNumber++) {
+        const column = worksheet.getColumn(colNumber);
+        let longest = 0;
+        column.eachCell(cell => {
+            longest = Math.max(longest, String(cell.value ?? '').length);
+        });
+        column.width = Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest + 2));
+    }
+}
+
+// The note on a filled-in activity cell
+function describeActivitySource(source: ActivitySource): string {
+    const from = source.from === 'link' ? `From linked MAP ticket(s) ${source.anchors.join(', ')}` : describeInheritance(source);
+    return source.split ? `${from}. Hours split between ${source.split}` : from;
+}
@@ -0,0 +1,89 @@
+import { HoursUnit, parseHours, WorkingTime } from './hours';
+import { eachSheetRow, readSheetFile, rejectInvalidRows, requireColumns, toDateCell } from './sheets';
+import { Issue } from './validation';
+
+export type WorklogColumns = {
+    ticket: string;
+    author: string;
+    started: string;
+    timeSpent: string;
+};
+
+export const DEFAULT_WORKLOG_COLUMNS: WorklogColumns = {
+    ticket: 'Issue Key',
+    author: 'Author',
+    started: 'Started',
+    timeSpent: 'Time Spent',
+};
+
+export type WorklogSettings = {
+    // Separate worklog file (.xlsx or .csv)
+    file?: string;
+    // Worklog sheet: in `file` when it's given, otherwise in the input workbook
+    sheet?: string;
+    // Unit of a plain number in the time spent column; Jira exports worklogs in seconds
+    timeSpentUnit: HoursUnit;
+    columns: WorklogColumns;
+};
+
+export const DEFAULT_WORKLOG_SETTINGS: WorklogSettings = {
+    timeSpentUnit: 'seconds',
+    columns: DEFAULT_WORKLOG_COLUMNS,
+};
+
+// Time one person logged against a ticket
+export type Worklog = {
+    ticket: string;
+    author: string;
+    started?: Date;
+    hours: number;
+};
+
+// Read worklog rows from a .csv file, or from a sheet of an .xlsx workbook (the first
+// sheet when `sheet` isn't given). Rows whose time spent can't be read are left out
+// and reported; a started date that can't be read rejects the file.
+export async function readWorklogs(file: string, sheet: string | undefined, settings: WorklogSettings, time: WorkingTime): Promise<{
+    worklogs: Map<string, Worklog[]>;
+    issues: Issue[];
+}> {
+    const { columns } = settings;
+    const worklogSheet = await readSheetFile(file, 'Worklog file', sheet);
+    requireColumns(worklogSheet, [columns.ticket, columns.author, columns.timeSpent]);
+
+    const worklogs = new Map<string, Worklog[]>();
+    const issues: Issue[] = [];
+    const problems: string[] = [];
+
+    eachSheetRow(worklogSheet, (cell, rowNumber) => {
+        const ticket = String(cell(columns.ticket) ?? '').trim();
+        if (!ticket) return;
+
+        const author = String(cell(columns.author) ?? '').trim() || 'Unassigned';
+        const timeSpent = cell(columns.timeSpent);
+        const hours = timeSpent === null || timeSpent === undefined || String(timeSpent).trim() === '' ? undefined : parseHours(timeSpent, settings.timeSpentUnit, time);
+        if (hours === undefined) {
+            issues.push({
+                severity: 'error',
+                ticket,
+                check: 'Unparseable worklog',
+                message: `Worklog on row ${rowNumber} by ${author} has time spent '${timeSpent}' that could not be read; it was left out`,
+            });
+            return;
+        }
+
+        const started = toDateCell(cell(columns.started));
+        if (started === null) {
+            problems.push(`row ${rowNumber}: invalid started date`);
+            return;
+        }
+        worklogs.set(ticket, [...(worklogs.get(ticket) ?? []), { ticket, author, started, hours }]);
+    });
+    rejectInvalidRows(worklogSheet, problems);
+
+    return { worklogs, issues };
+}
+
+// Total hours logged in a ticket's worklogs
+export function sumWorklogHours(worklogs: Worklog[]): number {
+    return worklogs.reduce((total, worklog) => total + worklog.hours, 0);
+}
@@ -0,0 +1,46 @@
+import assert from 'assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test } from 'node:test';
+import { loadConfig } from '../src/config';
+import { readTicketsFromJira } from '../src/jira';
+import { loadJiraFixtures, startMockJiraServer } from '../src/jiraMockServer';
+import { SILENT } from '../src/log';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'jira');
+const JQL = 'project = DEV AND updated >= 2025-07-01';
+
+test('jira: reads a query from the mock server, following links, parents and children', async () => {
+    const server = await startMockJiraServer(loadJiraFixtures(FIXTURES));
+    const config = loadConfig(path.join(FIXTURES, 'rd-tracking.config.yaml'));
+    config.jira.cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rd-tracking-jira-'));
+    process.env.JIRA_BASE_URL = server.url;
+    process.env.JIRA_EMAIL = 'dev@example.com';
+    process.env.JIRA_API_TOKEN = 'x';
+
+    try {
+        const warnings: string[] = [];
+        const log = { ...SILENT, warn: (message: string) => warnings.push(message) };
+        const { rows } = await readTicketsFromJira({ jql: JQL, log }, config);
+        const byKey = new Map(rows.map(ticket => [ticket['Work item key'], ticket]));
+
+        // The query's tickets, the MAP tickets they link to, and the children below them
+        assert.deepEqual(Array.from(byKey.keys()).sort(), ['DEV-1', 'DEV-10', 'DEV-11', 'DEV-12', 'DEV-2', 'DEV-3', 'DEV-4', 'DEV-5', 'MAP-1', 'MAP-2']);
+        assert.equal(byKey.get('MAP-1')!['R&DTI Activity'], 'Search ranking');
+        assert.equal(byKey.get('MAP-1')!['Linked work items'], 'DEV-1, DEV-5');
+        assert.match(byKey.get('DEV-2')!['Parent']!, /^DEV-1 /);
+        assert.equal(byKey.get('DEV-2')!['Work Hours in Progress'], '1d 2h');
+
+        // DEV-5 links to OPS-7, which no longer exists; that's a warning, not a failure
+        assert.equal(byKey.get('DEV-5')!['Linked work items'], 'MAP-1, OPS-7');
+        assert.deepEqual(warnings, [`⚠️ Jira: An issue with key 'OPS-7' does not exist for field 'key'.`]);
+
+        // A second read works from the cache alone
+        await server.close();
+        const offline = await readTicketsFromJira({ jql: JQL, offline: true }, config);
+        assert.equal(offline.rows.length, rows.length);
+    } finally {
+        await server.close();
+    }
+});
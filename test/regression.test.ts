@@ -0,0 +1,103 @@
+// Golden-file regression tests: each directory under fixtures/regression holds a small
+// export (and optionally an rd-tracking.config.yaml), and expected.json holds what the
+// pipeline made of it. Run with UPDATE_GOLDEN=1 to rewrite the expected files after an
+// intended change, and review the diff.
+import assert from 'assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+import {
+    analyseInputs,
+    buildJsonOutput,
+    collectContributors,
+    formatProvenance,
+    getWIPHours,
+    loadConfig,
+    loadInputs,
+    resolveTickets,
+    SILENT,
+    Ticket,
+} from '../src/lib';
+import { roundCents } from '../src/rates';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'regression');
+const EXPORT_FILES = ['export.xlsx', 'export.json'];
+
+for (const name of fs.readdirSync(FIXTURES).sort()) {
+    const dir = path.join(FIXTURES, name);
+    test(`regression: ${name}`, async () => {
+        const input = EXPORT_FILES.map(file => path.join(dir, file)).find(file => fs.existsSync(file));
+        assert.ok(input, `${name} has no export.xlsx or export.json`);
+
+        const config = loadConfig(undefined, dir);
+        const analysis = analyseInputs(await loadInputs({ input: [input] }, config), config);
+        const output = buildJsonOutput(analysis, name);
+        const actual = {
+            sumOfWIPHours: Object.fromEntries(analysis.rows
+                .filter(ticket => analysis.derivation.linkedItems.has(ticket['Work item key']))
+                .map(ticket => [ticket['Work item key'], ticket['Sum of WIP hours']])),
+            ...output,
+            contributors: output.contributors.map((record, index) => ({ ...record, provenance: formatProvenance(analysis.attributed[index]) })),
+        };
+
+        // Every MAP ticket's Sum of WIP hours is attributed to someone, before the period
+        // and overrides are applied
+        for (const [key, wipHours] of Object.entries(actual.sumOfWIPHours)) {
+            const traced = analysis.derivation.traced
+                .filter(contributor => contributor.trace?.[0].ticket === key)
+                .reduce((total, contributor) => total + contributor.hoursCost, 0);
+            assert.equal(roundCents(traced), roundCents(wipHours ?? 0), `${key} attributes ${traced}h of its ${wipHours} WIP hours`);
+        }
+
+        // Filled-in activities are the one the ticket's hours are claimed under, or empty
+        // with a split naming each of them
+        for (const contributor of analysis.derivation.traced) {
+            const source = analysis.derivation.activitySources.get(contributor.workItem);
+            if (!source) continue;
+            const shown = analysis.rows.find(ticket => ticket['Work item key'] === contributor.workItem)!['R&DTI Activity'];
+            assert.ok(shown ? shown === contributor.project : source.split?.includes(contributor.project),
+                `${contributor.workItem} shows '${shown}' (split '${source.split}') but is claimed under '${contributor.project}'`);
+        }
+
+        const expectedFile = path.join(dir, 'expected.json');
+        if (process.env.UPDATE_GOLDEN) {
+            fs.writeFileSync(expectedFile, JSON.stringify(actual, null, 2) + '\n');
+        }
+        assert.deepEqual(JSON.parse(JSON.stringify(actual)), JSON.parse(fs.readFileSync(expectedFile, 'utf8')));
+    });
+}
+
+// The stages can also be called on tickets built in memory
+test('library: WIP hours and contributors from in-memory tickets', () => {
+    const rows: Ticket[] = [
+        { 'Work item key': 'MAP-1', 'Work type': 'Idea', 'Linked work items': 'DEV-1', 'R&DTI Activity': 'Search ranking' },
+        { 'Work item key': 'DEV-1', 'Work type': 'Story', 'Work Hours in Progress': '3h', 'Mob': 'Alice, Bob' },
+    ];
+    const columns = ['Work item key', 'Work type', 'Linked work items', 'R&DTI Activity', 'Work Hours in Progress', 'Mob']
+        .map(header => ({ header, field: header }));
+    const config = loadConfig(undefined, FIXTURES);
+    const { model } = resolveTickets({ columns, rows }, config);
+    const dev = model.graph.tickets.get('DEV-1')!;
+
+    assert.equal(dev['R&DTI Activity'], 'Search ranking');
+    assert.equal(getWIPHours(model, dev), 6);
+    assert.deepEqual(
+        collectContributors(model, dev, 'Search ranking').map(contributor => [contributor.who, contributor.hoursCost]),
+        [['Alice', 3], ['Bob', 3]],
+    );
+});
+
+// Loading prints nothing itself; warnings go to the logger in the options
+test('library: messages go to the given logger, not the console', async (t) => {
+    const dir = path.join(FIXTURES, 'mob');
+    const config = loadConfig(undefined, dir);
+    const printed = [t.mock.method(console, 'log'), t.mock.method(console, 'warn')];
+    const warnings: string[] = [];
+
+    await loadInputs({ input: [path.join(dir, 'export.xlsx')] }, config);
+    await loadInputs({ input: [path.join(dir, 'export.xlsx')], log: { ...SILENT, warn: message => warnings.push(message) } }, config);
+
+    assert.deepEqual(printed.map(mock => mock.mock.callCount()), [0, 0]);
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /Optional column\(s\) 'Resolution'.* not in sheet 'Export'/);
+});
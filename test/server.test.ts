@@ -0,0 +1,60 @@
+import assert from 'assert/strict';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { after, before, test } from 'node:test';
+import { loadConfig } from '../src/lib';
+import { RdTrackingServer, startServer } from '../src/server';
+
+const EXPORT = path.join(__dirname, '..', 'fixtures', 'regression', 'mob', 'export.xlsx');
+
+let server: RdTrackingServer;
+before(async () => {
+    server = await startServer(loadConfig(undefined, path.dirname(EXPORT)));
+});
+after(() => server.close());
+
+// A request with the headers exactly as given, which fetch won't send for Host
+function request(method: string, pathname: string, headers: http.OutgoingHttpHeaders, body = ''): Promise<{ status: number; body: string }> {
+    const url = new URL(pathname, server.url);
+    return new Promise((resolve, reject) => {
+        const req = http.request({ host: url.hostname, port: url.port, path: url.pathname, method, headers }, response => {
+            const chunks: Buffer[] = [];
+            response.on('data', chunk => chunks.push(chunk));
+            response.on('end', () => resolve({ status: response.statusCode!, body: Buffer.concat(chunks).toString('utf8') }));
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+function upload(): string {
+    return JSON.stringify({ files: [{ field: 'input', name: 'export.xlsx', content: fs.readFileSync(EXPORT).toString('base64') }] });
+}
+
+test('server: analyses an upload and serves its report and workbook under a random id', async () => {
+    const response = await fetch(`${server.url}/runs`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: upload() });
+    assert.equal(response.status, 200);
+    const { url } = await response.json() as { url: string };
+    assert.match(url, /^\/runs\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+
+    const report = await fetch(`${server.url}${url}`);
+    assert.equal(report.status, 200);
+    assert.match(await report.text(), /MAP-1/);
+    const workbook = await fetch(`${server.url}${url}/workbook.xlsx`);
+    assert.equal(workbook.status, 200);
+    assert.equal(workbook.headers.get('content-disposition'), 'attachment; filename="export_with_rdti.xlsx"');
+});
+
+test('server: rejects other hosts and origins', async () => {
+    const port = new URL(server.url).port;
+    assert.equal((await request('GET', '/', { Host: `attacker.example:${port}` })).status, 403);
+    assert.equal((await request('GET', '/', { Host: `localhost:${port}` })).status, 200);
+    const crossSite = await request('POST', '/runs', { Host: `127.0.0.1:${port}`, Origin: 'http://attacker.example', 'Content-Type': 'application/json' }, upload());
+    assert.equal(crossSite.status, 403);
+});
+
+test('server: only takes uploads sent as JSON', async () => {
+    const response = await fetch(`${server.url}/runs`, { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body: upload() });
+    assert.equal(response.status, 415);
+});
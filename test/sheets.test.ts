@@ -0,0 +1,51 @@
+import assert from 'assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test } from 'node:test';
+import { readCapacity } from '../src/capacity';
+import { DEFAULT_CONFIG } from '../src/config';
+import { readRateCard } from '../src/rates';
+import { readWorklogs } from '../src/worklogs';
+
+function writeTemp(name: string, text: string): string {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'rd-tracking-test-')), name);
+    fs.writeFileSync(file, text);
+    return file;
+}
+
+test('rate card: effective dates are read day first, like ticket dates', async () => {
+    const file = writeTemp('rates.csv', [
+        'Person,Hourly Rate,Effective From,Effective To',
+        'Alice,100,01/07/2025,30/06/2026',
+    ].join('\n'));
+    const [entry] = (await readRateCard(file, DEFAULT_CONFIG.rateCard.columns)).get('alice')!;
+
+    assert.equal(entry.effectiveFrom?.toISOString(), '2025-07-01T00:00:00.000Z');
+    assert.equal(entry.effectiveTo?.toISOString(), '2026-06-30T23:59:59.999Z');
+});
+
+test('capacity: employment dates are read day first, like ticket dates', async () => {
+    const file = writeTemp('capacity.csv', [
+        'Person,FTE,Start Date,End Date',
+        'Alice,1,15/08/2025,31/12/2025',
+    ].join('\n'));
+    const [entry] = (await readCapacity(file, DEFAULT_CONFIG.capacity.columns)).get('alice')!;
+
+    assert.equal(entry.startDate?.toISOString(), '2025-08-15T00:00:00.000Z');
+    assert.equal(entry.endDate?.toISOString(), '2025-12-31T00:00:00.000Z');
+});
+
+test('sheet files: every missing column is reported at once', async () => {
+    const file = writeTemp('capacity.csv', 'Name,Start Date\nAlice,01/07/2025\n');
+    await assert.rejects(readCapacity(file, DEFAULT_CONFIG.capacity.columns), /missing column\(s\): 'Person', 'FTE' or 'Hours Paid'/);
+});
+
+test('worklogs: a started date that cannot be read rejects the file', async () => {
+    const file = writeTemp('worklogs.csv', [
+        'Issue Key,Author,Started,Time Spent',
+        'DEV-1,Alice,01/07/2025,3600',
+        'DEV-2,Bob,sometime,3600',
+    ].join('\n'));
+    await assert.rejects(readWorklogs(file, undefined, DEFAULT_CONFIG.worklogs, DEFAULT_CONFIG), /row 3: invalid started date/);
+});